@@ -8,6 +8,14 @@ import NotFound from "./pages/NotFound";
 import Dashboard from "./pages/Dashboard";
 import AddSession from "./pages/AddSession";
 import Sessions from "./pages/Sessions";
+import ImportSessions from "./pages/ImportSessions";
+import Report from "./pages/Report";
+import SubjectDetail from "./pages/SubjectDetail";
+import WhatIf from "./pages/WhatIf";
+import StudyPlanner from "./pages/StudyPlanner";
+import Calibration from "./pages/Calibration";
+import GrandTests from "./pages/GrandTests";
+import AddGrandTest from "./pages/AddGrandTest";
 import Leaderboard from "./pages/Leaderboard";
 import Profile from "./pages/Profile";
 import ResetPassword from "./pages/ResetPassword";
@@ -27,7 +35,16 @@ const App = () => (
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/add-session" element={<AddSession />} />
           <Route path="/sessions" element={<Sessions />} />
+          <Route path="/sessions/import" element={<ImportSessions />} />
+          <Route path="/sessions/:id/edit" element={<AddSession />} />
+          <Route path="/subjects/:subject" element={<SubjectDetail />} />
+          <Route path="/what-if" element={<WhatIf />} />
+          <Route path="/planner" element={<StudyPlanner />} />
+          <Route path="/calibration" element={<Calibration />} />
+          <Route path="/grand-tests" element={<GrandTests />} />
+          <Route path="/grand-tests/new" element={<AddGrandTest />} />
           <Route path="/leaderboard" element={<Leaderboard />} />
+          <Route path="/report" element={<Report />} />
           <Route path="/profile" element={<Profile />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -40,6 +40,18 @@ const DashboardHeader = ({ userSession, onLogout }: DashboardHeaderProps) => {
             >
               Sessions
             </Button>
+            <Button 
+              variant="link" 
+              onClick={() => navigate("/grand-tests")}
+            >
+              Grand Tests
+            </Button>
+            <Button 
+              variant="link" 
+              onClick={() => navigate("/planner")}
+            >
+              Planner
+            </Button>
             <Button 
               variant="link" 
               onClick={() => navigate("/leaderboard")}
@@ -0,0 +1,38 @@
+import { ScoreProjection, formatRank } from "@/lib/projection";
+
+interface ProjectionSummaryProps {
+  projection: ScoreProjection;
+}
+
+const ProjectionSummary = ({ projection }: ProjectionSummaryProps) => {
+  const { marks, rank, percentile } = projection;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4 pt-4 border-t">
+      <div>
+        <p className="text-xs text-muted-foreground">Expected {projection.examName} marks</p>
+        <p className="text-lg font-semibold">
+          {marks.expected}
+          <span className="text-sm font-normal text-muted-foreground"> / {projection.maxMarks}</span>
+        </p>
+        <p className="text-xs text-muted-foreground">Range {marks.low}–{marks.high}</p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Predicted rank</p>
+        <p className="text-lg font-semibold">~{formatRank(rank.expected)}</p>
+        <p className="text-xs text-muted-foreground">
+          Range {formatRank(rank.low)}–{formatRank(rank.high)}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Percentile</p>
+        <p className="text-lg font-semibold">{percentile.expected.toFixed(1)}</p>
+        <p className="text-xs text-muted-foreground">
+          Range {percentile.low.toFixed(1)}–{percentile.high.toFixed(1)} · data v{projection.tableVersion}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectionSummary;
@@ -0,0 +1,92 @@
+import { Badge } from "@/components/ui/badge";
+import { ScoreExplanation, SessionDriver, getMultiplierFactors } from "@/lib/scoreExplain";
+import type { ScoreChangeCause } from "@/types/database";
+
+interface ScoreExplanationPanelProps {
+  explanation: ScoreExplanation;
+}
+
+const formatDelta = (value: number, digits = 2) => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+const getDeltaColor = (value: number) => {
+  if (value > 0) return "text-green-600";
+  if (value < 0) return "text-red-600";
+  return "text-gray-500";
+};
+
+const changeLabels: Record<SessionDriver["change"], string> = {
+  added: "Added",
+  removed: "Removed",
+  updated: "Edited"
+};
+
+// Shown for a subject with no session drivers. Only the daily rescore moves a
+// score through recency alone; every other cause is named instead.
+const unchangedNotes: Record<ScoreChangeCause, string> = {
+  session_insert: "No sessions added here; a session was added.",
+  session_update: "No new sessions here; a session was edited.",
+  session_delete: "No new sessions here; a session was deleted.",
+  session_import: "No imported sessions here; sessions were imported.",
+  grand_test: "No new sessions here; a grand test was logged.",
+  exam_change: "No sessions changed; the target exam changed, which reweights each subject.",
+  scheduled: "No sessions changed; older sessions count for less as they age (recency)."
+};
+
+const ScoreExplanationPanel = ({ explanation }: ScoreExplanationPanelProps) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline space-x-3">
+        <span className="text-lg">
+          {explanation.before.toFixed(2)} → <span className="font-bold">{explanation.after.toFixed(2)}</span>
+        </span>
+        <span className={`font-medium ${getDeltaColor(explanation.delta)}`}>
+          {formatDelta(explanation.delta)}
+        </span>
+      </div>
+
+      {explanation.subjects.length === 0 ? (
+        <p className="text-sm text-gray-500">No subject breakdown is available for this change.</p>
+      ) : (
+        <ul className="space-y-3">
+          {explanation.subjects.map((change) => (
+            <li key={change.subject} className="rounded-md border p-3">
+              <div className="flex justify-between items-baseline">
+                <span className="font-medium">{change.subject}</span>
+                <span className="text-sm">
+                  {change.before.toFixed(1)} → {change.after.toFixed(1)}
+                  <span className={`ml-2 ${getDeltaColor(change.delta)}`}>{formatDelta(change.delta, 1)}</span>
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {formatDelta(change.overallDelta)} points on the overall score
+              </p>
+              {change.sessions.length === 0 ? (
+                <p className="text-xs text-gray-500 mt-1">
+                  {explanation.cause ? unchangedNotes[explanation.cause] : "No new sessions in this subject."}
+                </p>
+              ) : (
+                <ul className="mt-2 space-y-1">
+                  {change.sessions.map((driver) => (
+                    <li key={`${driver.change}-${driver.sessionId}`} className="text-sm">
+                      <span>{changeLabels[driver.change]} {driver.type} session</span>
+                      {" · "}net accuracy {Math.round(driver.score.netAccuracy * 100)}%
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {getMultiplierFactors(driver.score).map((factor) => (
+                          <Badge key={factor.label} variant="secondary" className="font-normal">
+                            {factor.label} ×{factor.value.toFixed(2)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScoreExplanationPanel;
@@ -1,12 +1,23 @@
 
+import { ChevronDown } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ExamProfile, getExpectedQuestions, getSubjectWeight } from "@/lib/examProfiles";
+import type { ScoreInterval, TopicScoreResult } from "@/lib/scoring";
 
 interface SubjectScoreCardProps {
   subject: string;
   score: number;
   count: number;
-  weight: number;
+  interval?: ScoreInterval;
+  /** Topic scores for the drill-down; the toggle is hidden when empty. */
+  topics?: TopicScoreResult[];
+  /** Target score set on the profile, if any. */
+  target?: number;
+  examProfile: ExamProfile;
 }
 
 const getScoreColor = (score: number) => {
@@ -23,16 +34,21 @@ const getProgressColor = (score: number) => {
   return "bg-red-600";
 };
 
-const SubjectScoreCard = ({ subject, score, count, weight }: SubjectScoreCardProps) => {
+const SubjectScoreCard = ({ subject, score, count, interval, topics = [], target, examProfile }: SubjectScoreCardProps) => {
   const roundedScore = Math.round(score);
+  const weight = getSubjectWeight(examProfile, subject);
+  const navigate = useNavigate();
   
   return (
-    <Card>
+    <Card
+      className="cursor-pointer transition-shadow hover:shadow-md"
+      onClick={() => navigate(`/subjects/${encodeURIComponent(subject)}`)}
+    >
       <CardHeader className="pb-2">
         <CardTitle className="text-base font-medium">
           {subject}
           <span className="text-xs ml-2 text-gray-500">
-            ({weight} weight)
+            ({weight} weight · ~{getExpectedQuestions(examProfile, subject)} Qs in {examProfile.name})
           </span>
         </CardTitle>
       </CardHeader>
@@ -46,11 +62,68 @@ const SubjectScoreCard = ({ subject, score, count, weight }: SubjectScoreCardPro
               {count} session{count !== 1 ? "s" : ""}
             </span>
           </div>
-          <Progress 
-            value={roundedScore} 
-            className="h-2"
-            indicatorClassName={getProgressColor(roundedScore)}
-          />
+          <div className="relative">
+            <Progress 
+              value={roundedScore} 
+              className="h-2"
+              indicatorClassName={getProgressColor(roundedScore)}
+            />
+            {interval && (
+              <div
+                className="absolute top-0 h-2 rounded-full bg-gray-400/30"
+                style={{ left: `${interval.low}%`, width: `${interval.high - interval.low}%` }}
+              />
+            )}
+            {target !== undefined && (
+              <div
+                className="absolute -top-1 h-4 w-0.5 bg-gray-800"
+                style={{ left: `${target}%` }}
+              />
+            )}
+          </div>
+          {interval && (
+            <p className="text-xs text-gray-500">
+              Likely range {Math.round(interval.low)}–{Math.round(interval.high)}%
+            </p>
+          )}
+          {target !== undefined && (
+            <p className={`text-xs ${score >= target ? "text-green-600" : "text-gray-500"}`}>
+              {score >= target
+                ? `Target ${target}% reached`
+                : `Target ${target}% · ${(target - score).toFixed(1)} to go`}
+            </p>
+          )}
+          {topics.length > 0 && (
+            // Expanding topics shouldn't open the subject page
+            <Collapsible onClick={(e) => e.stopPropagation()}>
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="group w-full justify-between px-0 text-xs text-gray-500">
+                  {topics.length} topic{topics.length !== 1 ? "s" : ""} tracked
+                  <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <ul className="space-y-1 pt-1">
+                  {topics.map((topic) => {
+                    const topicCount = topic.practiceCount + topic.mockCount;
+                    return (
+                      <li key={topic.topic} className="flex justify-between text-sm">
+                        <span>{topic.topic}</span>
+                        <span>
+                          <span className={`font-medium ${getScoreColor(Math.round(topic.score))}`}>
+                            {Math.round(topic.score)}%
+                          </span>
+                          <span className="text-xs text-gray-500 ml-2">
+                            {topicCount} session{topicCount !== 1 ? "s" : ""}
+                          </span>
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
         </div>
       </CardContent>
     </Card>
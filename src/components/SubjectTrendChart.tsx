@@ -0,0 +1,91 @@
+import { useMemo, useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ScoreHistory, SubjectType } from "@/types/database";
+
+interface SubjectTrendChartProps {
+  history: ScoreHistory[];
+  /** Subjects shown first; the rest of the recorded subjects can be toggled on. */
+  defaultSubjects?: SubjectType[];
+}
+
+const COLORS = [
+  "#8884d8", "#82ca9d", "#ff7300", "#e11d48", "#0ea5e9", "#a855f7",
+  "#14b8a6", "#f59e0b", "#64748b", "#84cc16", "#ec4899", "#6366f1"
+];
+
+const SubjectTrendChart = ({ history, defaultSubjects = [] }: SubjectTrendChartProps) => {
+  const recorded = useMemo(() => {
+    const subjects = new Set<SubjectType>();
+    history.forEach(record => {
+      Object.keys(record.subject_scores || {}).forEach(subject => subjects.add(subject as SubjectType));
+    });
+    return Array.from(subjects).sort();
+  }, [history]);
+
+  const [selected, setSelected] = useState<string[] | null>(null);
+  // Until the user picks, show the default subjects that have history
+  const visible = selected ?? defaultSubjects.filter(subject => recorded.includes(subject));
+
+  const data = useMemo(() => history
+    .filter(record => record.subject_scores)
+    .map(record => ({
+      date: record.created_at,
+      ...Object.fromEntries(Object.entries(record.subject_scores).map(([subject, snapshot]) => [subject, snapshot.score]))
+    })), [history]);
+
+  if (recorded.length === 0) {
+    return <p>No subject history yet. Subject scores are recorded with each new score update.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        value={visible}
+        onValueChange={setSelected}
+        className="flex-wrap justify-start"
+      >
+        {recorded.map((subject) => (
+          <ToggleGroupItem key={subject} value={subject} size="sm" variant="outline">
+            <span
+              className="mr-2 inline-block h-2 w-2 rounded-full"
+              style={{ backgroundColor: COLORS[recorded.indexOf(subject) % COLORS.length] }}
+            />
+            {subject}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(date) => new Date(date).toLocaleDateString()}
+            />
+            <YAxis domain={[0, 100]} />
+            <Tooltip
+              formatter={(value: number, name: string) => [value.toFixed(2), name]}
+              labelFormatter={(label) => new Date(label).toLocaleString()}
+            />
+            <Legend />
+            {visible.map((subject) => (
+              <Line
+                key={subject}
+                type="monotone"
+                dataKey={subject}
+                stroke={COLORS[recorded.indexOf(subject as SubjectType) % COLORS.length]}
+                dot={false}
+                strokeWidth={2}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default SubjectTrendChart;
@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import { supabase } from "@/integrations/supabase/client"
+import { ExamProfile, getExamProfile } from "@/lib/examProfiles"
+
+// Loads the target exam the user picked on their profile
+export function useExamProfile(userId: string | undefined) {
+  const [examProfile, setExamProfile] = React.useState<ExamProfile>(getExamProfile())
+
+  React.useEffect(() => {
+    if (!userId) return
+
+    supabase
+      .from("profiles")
+      .select("target_exam")
+      .eq("id", userId)
+      .single()
+      .then(({ data }) => setExamProfile(getExamProfile(data?.target_exam)))
+  }, [userId])
+
+  return examProfile
+}
@@ -0,0 +1,146 @@
+import { format, parseISO, startOfWeek } from "date-fns";
+import type { ConfidenceLevel, Session, SubjectType } from "@/types/database";
+import { getQuestionCounts } from "@/lib/scoring";
+
+// Share of questions a user expects to get right at each stated confidence level
+export const CONFIDENCE_PROBABILITY: Record<ConfidenceLevel, number> = {
+  low: 0.5,
+  medium: 0.7,
+  high: 0.9
+};
+// Chance of a blind guess on a four-option question
+const GUESS_PROBABILITY = 0.25;
+const BIN_WIDTH = 0.1;
+// Gap between stated and actual accuracy still counted as well calibrated
+const CALIBRATED_MARGIN = 0.05;
+
+export type CalibrationVerdict = "overconfident" | "underconfident" | "calibrated";
+
+export interface CalibrationBin {
+  /** Lower edge of the bin of stated confidence, 0-1. */
+  from: number;
+  to: number;
+  /** Mean stated confidence in the bin, weighted by attempted questions, 0-1. */
+  stated: number;
+  /** Correct over attempted questions in the bin, 0-1. */
+  actual: number;
+  questions: number;
+  sessions: number;
+}
+
+export interface SubjectCalibration {
+  subject: SubjectType;
+  stated: number;
+  actual: number;
+  /** Stated minus actual; positive means overconfident. */
+  bias: number;
+  verdict: CalibrationVerdict;
+  questions: number;
+  sessions: number;
+}
+
+export interface GuessRatePoint {
+  /** First day of the week (yyyy-MM-dd). */
+  week: string;
+  /** Share of questions guessed, weighted by question count, 0-100. */
+  guessRate: number;
+  /** Correct over attempted questions that week, 0-100. */
+  accuracy: number;
+  sessions: number;
+}
+
+// Confident answers are expected right at the level's rate and guessed ones at chance
+export function getStatedConfidence(session: Session): number {
+  const guessed = Math.min(100, Math.max(0, session.guess_percent)) / 100;
+  return (1 - guessed) * CONFIDENCE_PROBABILITY[session.confidence] + guessed * GUESS_PROBABILITY;
+}
+
+// Stated and actual accuracy over the attempted questions of a group of sessions
+function summarize(sessions: Session[]) {
+  let questions = 0;
+  let correct = 0;
+  let statedSum = 0;
+  sessions.forEach(session => {
+    const counts = getQuestionCounts(session);
+    questions += counts.attempted;
+    correct += counts.correct;
+    statedSum += getStatedConfidence(session) * counts.attempted;
+  });
+  return {
+    questions,
+    stated: questions > 0 ? statedSum / questions : 0,
+    actual: questions > 0 ? correct / questions : 0
+  };
+}
+
+export function getVerdict(bias: number): CalibrationVerdict {
+  if (bias > CALIBRATED_MARGIN) return "overconfident";
+  if (bias < -CALIBRATED_MARGIN) return "underconfident";
+  return "calibrated";
+}
+
+// Sessions grouped into bins of stated confidence; empty bins are left out
+export function getCalibrationCurve(sessions: Session[]): CalibrationBin[] {
+  const bins = new Map<number, Session[]>();
+  sessions.forEach(session => {
+    const index = Math.min(Math.floor(getStatedConfidence(session) / BIN_WIDTH), 1 / BIN_WIDTH - 1);
+    if (!bins.has(index)) bins.set(index, []);
+    bins.get(index).push(session);
+  });
+
+  return Array.from(bins.entries())
+    .map(([index, binSessions]) => ({
+      from: index * BIN_WIDTH,
+      to: (index + 1) * BIN_WIDTH,
+      ...summarize(binSessions),
+      sessions: binSessions.length
+    }))
+    .filter(bin => bin.questions > 0)
+    .sort((a, b) => a.from - b.from);
+}
+
+// Mean gap between stated and actual accuracy across bins, weighted by questions
+export function getCalibrationError(curve: CalibrationBin[]): number | null {
+  const questions = curve.reduce((sum, bin) => sum + bin.questions, 0);
+  if (questions === 0) return null;
+  return curve.reduce((sum, bin) => sum + Math.abs(bin.stated - bin.actual) * bin.questions, 0) / questions;
+}
+
+export function getSubjectCalibration(sessions: Session[]): SubjectCalibration[] {
+  const bySubject = new Map<SubjectType, Session[]>();
+  sessions.forEach(session => {
+    if (!bySubject.has(session.subject)) bySubject.set(session.subject, []);
+    bySubject.get(session.subject).push(session);
+  });
+
+  return Array.from(bySubject.entries())
+    .map(([subject, subjectSessions]) => {
+      const summary = summarize(subjectSessions);
+      const bias = summary.stated - summary.actual;
+      return { subject, ...summary, bias, verdict: getVerdict(bias), sessions: subjectSessions.length };
+    })
+    .filter(item => item.questions > 0)
+    .sort((a, b) => Math.abs(b.bias) - Math.abs(a.bias));
+}
+
+export function getGuessRateTrend(sessions: Session[]): GuessRatePoint[] {
+  const byWeek = new Map<string, Session[]>();
+  sessions.forEach(session => {
+    const week = format(startOfWeek(parseISO(session.practiced_on), { weekStartsOn: 1 }), "yyyy-MM-dd");
+    if (!byWeek.has(week)) byWeek.set(week, []);
+    byWeek.get(week).push(session);
+  });
+
+  return Array.from(byWeek.entries())
+    .map(([week, weekSessions]) => {
+      const total = weekSessions.reduce((sum, session) => sum + session.total_questions, 0);
+      const guessed = weekSessions.reduce((sum, session) => sum + session.guess_percent * session.total_questions, 0);
+      return {
+        week,
+        guessRate: total > 0 ? guessed / total : 0,
+        accuracy: summarize(weekSessions).actual * 100,
+        sessions: weekSessions.length
+      };
+    })
+    .sort((a, b) => a.week.localeCompare(b.week));
+}
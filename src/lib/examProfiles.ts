@@ -0,0 +1,121 @@
+import type { ExamId, SubjectType } from "@/types/database";
+
+export interface MarkingScheme {
+  correct: number;
+  incorrect: number;
+  unattempted: number;
+}
+
+export interface ExamProfile {
+  id: ExamId;
+  name: string;
+  questionCount: number;
+  marking: MarkingScheme;
+  /** Relative weight of each subject in the paper; subjects missing here are not part of the exam. */
+  subjectWeights: Partial<Record<SubjectType, number>>;
+}
+
+export const DEFAULT_EXAM_ID: ExamId = "neet-pg";
+
+export const examProfiles: Record<ExamId, ExamProfile> = {
+  "neet-pg": {
+    id: "neet-pg",
+    name: "NEET PG",
+    questionCount: 200,
+    marking: { correct: 4, incorrect: -1, unattempted: 0 },
+    subjectWeights: {
+      "Medicine": 15,
+      "Surgery": 12,
+      "OB-GYN": 10,
+      "Pediatrics": 6,
+      "Pathology": 6,
+      "Pharmacology": 6,
+      "Biochemistry": 5,
+      "Anatomy": 4,
+      "Physiology": 4,
+      "Microbiology": 5,
+      "Radiology": 5,
+      "Dermatology": 3,
+      "Psychiatry": 3,
+      "ENT": 2,
+      "Ophthalmology": 2,
+      "Anesthesia": 2,
+      "Forensic Medicine": 2
+    }
+  },
+  "ini-cet": {
+    id: "ini-cet",
+    name: "INI-CET",
+    questionCount: 200,
+    marking: { correct: 1, incorrect: -1 / 3, unattempted: 0 },
+    subjectWeights: {
+      "Medicine": 14,
+      "Surgery": 12,
+      "OB-GYN": 10,
+      "Pediatrics": 6,
+      "Pathology": 7,
+      "Pharmacology": 7,
+      "Biochemistry": 5,
+      "Anatomy": 6,
+      "Physiology": 5,
+      "Microbiology": 6,
+      "Radiology": 4,
+      "Dermatology": 3,
+      "Psychiatry": 3,
+      "ENT": 3,
+      "Ophthalmology": 3,
+      "Anesthesia": 2,
+      "Forensic Medicine": 3
+    }
+  },
+  "fmge": {
+    id: "fmge",
+    name: "FMGE",
+    questionCount: 300,
+    marking: { correct: 1, incorrect: 0, unattempted: 0 },
+    subjectWeights: {
+      "Medicine": 27,
+      "Surgery": 24,
+      "OB-GYN": 30,
+      "Pediatrics": 15,
+      "Pathology": 13,
+      "Pharmacology": 14,
+      "Biochemistry": 17,
+      "Anatomy": 17,
+      "Physiology": 17,
+      "Microbiology": 13,
+      "Radiology": 4,
+      "Dermatology": 3,
+      "Psychiatry": 3,
+      "ENT": 15,
+      "Ophthalmology": 15,
+      "Anesthesia": 4,
+      "Forensic Medicine": 10
+    }
+  }
+};
+
+export function getExamProfile(id?: string | null): ExamProfile {
+  return examProfiles[id as ExamId] || examProfiles[DEFAULT_EXAM_ID];
+}
+
+export function getExamSubjects(profile: ExamProfile): SubjectType[] {
+  return Object.keys(profile.subjectWeights) as SubjectType[];
+}
+
+export function getSubjectWeight(profile: ExamProfile, subject: string): number {
+  return profile.subjectWeights[subject as SubjectType] || 0;
+}
+
+export function getTotalWeight(profile: ExamProfile): number {
+  return Object.values(profile.subjectWeights).reduce((sum, weight) => sum + weight, 0);
+}
+
+export function getMaxMarks(profile: ExamProfile): number {
+  return profile.questionCount * profile.marking.correct;
+}
+
+// Approximate number of questions a subject gets in one paper
+export function getExpectedQuestions(profile: ExamProfile, subject: string): number {
+  return Math.round(getSubjectWeight(profile, subject) / getTotalWeight(profile) * profile.questionCount);
+}
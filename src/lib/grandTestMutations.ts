@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/types/database";
+
+type Tables = Database["public"]["Tables"];
+export type GrandTestInsert = Tables["grand_tests"]["Insert"];
+export type GrandTestSubjectInsert = Omit<Tables["grand_test_subjects"]["Insert"], "grand_test_id" | "user_id">;
+
+// Writing the subject breakdown fires the grand_test_subjects triggers, which
+// recompute the prediction score once per statement.
+
+export async function createGrandTest(
+  grandTest: GrandTestInsert,
+  subjects: GrandTestSubjectInsert[]
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("grand_tests")
+    .insert(grandTest)
+    .select("id")
+    .single();
+
+  if (error) throw error;
+
+  const { error: subjectsError } = await supabase
+    .from("grand_test_subjects")
+    .insert(subjects.map(row => ({ ...row, grand_test_id: data.id, user_id: grandTest.user_id })));
+
+  if (subjectsError) {
+    // Don't leave a test without its breakdown behind
+    await supabase.from("grand_tests").delete().eq("id", data.id);
+    throw subjectsError;
+  }
+}
+
+export async function deleteGrandTest(id: string): Promise<void> {
+  const { error } = await supabase.from("grand_tests").delete().eq("id", id);
+  if (error) throw error;
+}
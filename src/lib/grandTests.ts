@@ -0,0 +1,35 @@
+import type { GrandTest, GrandTestSubject, Session } from "@/types/database";
+
+export const GRAND_TEST_SELECT = "*, grand_test_subjects(*)";
+
+export function getGrandTestQuestionCount(grandTest: GrandTest): number {
+  return (grandTest.grand_test_subjects || []).reduce((sum, row) => sum + row.total_questions, 0);
+}
+
+// Each subject section of a grand test is scored like a mock session of that subject
+export function grandTestSubjectToSession(grandTest: GrandTest, row: GrandTestSubject): Session {
+  return {
+    id: `gt-${row.id}`,
+    user_id: grandTest.user_id,
+    subject: row.subject,
+    topic: null,
+    correct_questions: row.correct_questions,
+    incorrect_questions: row.incorrect_questions,
+    unattempted_questions: row.unattempted_questions,
+    total_questions: row.total_questions,
+    difficulty: "medium",
+    confidence: "medium",
+    guess_percent: 0,
+    time_taken: 0,
+    type: "mock",
+    source: "manual",
+    practiced_on: grandTest.taken_on,
+    created_at: grandTest.created_at
+  };
+}
+
+export function grandTestsToSessions(grandTests: GrandTest[]): Session[] {
+  return grandTests.flatMap(grandTest =>
+    (grandTest.grand_test_subjects || []).map(row => grandTestSubjectToSession(grandTest, row))
+  );
+}
@@ -0,0 +1,100 @@
+import { ExamProfile, getMaxMarks } from "@/lib/examProfiles";
+import { RankTable, rankTables } from "@/lib/rankTables";
+
+// Spread applied to the expected accuracy when no data-driven interval is available
+export const DEFAULT_ACCURACY_MARGIN = 8;
+
+export interface ProjectionRange {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface ScoreProjection {
+  examName: string;
+  maxMarks: number;
+  marks: ProjectionRange;
+  /** Lower rank numbers are better, so `low` is the optimistic end. */
+  rank: ProjectionRange;
+  percentile: ProjectionRange;
+  tableVersion: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function marksToRank(table: RankTable, marks: number): number {
+  const { points } = table;
+  if (marks >= points[0].marks) return points[0].rank;
+
+  for (let i = 1; i < points.length; i++) {
+    const upper = points[i - 1];
+    const lower = points[i];
+    if (marks >= lower.marks) {
+      const t = (marks - lower.marks) / (upper.marks - lower.marks);
+      return Math.round(lower.rank + t * (upper.rank - lower.rank));
+    }
+  }
+
+  return points[points.length - 1].rank;
+}
+
+export function rankToPercentile(table: RankTable, rank: number): number {
+  return Number(((1 - rank / table.candidates) * 100).toFixed(2));
+}
+
+// Takes the expected net accuracy (net marks over maximum marks, 0-100), not the
+// prediction score: the score's difficulty and confidence multipliers would
+// push any hard or confident session towards full marks
+export function accuracyToMarks(accuracy: number, examProfile: ExamProfile): number {
+  return Math.round(clamp(accuracy, 0, 100) / 100 * getMaxMarks(examProfile));
+}
+
+// Projects marks, rank and percentile from ScoringResult.expectedAccuracy
+export function projectScore(
+  accuracy: number,
+  examProfile: ExamProfile,
+  interval: { low: number; high: number } = {
+    low: accuracy - DEFAULT_ACCURACY_MARGIN,
+    high: accuracy + DEFAULT_ACCURACY_MARGIN
+  }
+): ScoreProjection {
+  const table = rankTables[examProfile.id];
+  const marks = {
+    expected: accuracyToMarks(accuracy, examProfile),
+    low: accuracyToMarks(interval.low, examProfile),
+    high: accuracyToMarks(interval.high, examProfile)
+  };
+  const rank = {
+    expected: marksToRank(table, marks.expected),
+    low: marksToRank(table, marks.high),
+    high: marksToRank(table, marks.low)
+  };
+
+  return {
+    examName: examProfile.name,
+    maxMarks: getMaxMarks(examProfile),
+    marks,
+    rank,
+    percentile: {
+      expected: rankToPercentile(table, rank.expected),
+      low: rankToPercentile(table, rank.high),
+      high: rankToPercentile(table, rank.low)
+    },
+    tableVersion: table.version
+  };
+}
+
+// Re-centres an engine interval on another value, such as a stored score or accuracy
+export function centerInterval(
+  score: number,
+  result: { overall: number; interval: { low: number; high: number } }
+): { low: number; high: number } {
+  return {
+    low: score - (result.overall - result.interval.low),
+    high: score + (result.interval.high - result.overall)
+  };
+}
+
+export function formatRank(rank: number): string {
+  return rank.toLocaleString("en-IN");
+}
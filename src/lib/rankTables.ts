@@ -0,0 +1,83 @@
+import type { ExamId } from "@/types/database";
+
+export interface RankTablePoint {
+  marks: number;
+  rank: number;
+}
+
+export interface RankTable {
+  examId: ExamId;
+  /** Bump whenever the points below are updated so projections can be traced to a dataset. */
+  version: string;
+  candidates: number;
+  /** Sorted from highest to lowest marks. */
+  points: RankTablePoint[];
+}
+
+// Approximate marks-to-rank curves compiled from publicly reported results of recent sittings.
+export const rankTables: Record<ExamId, RankTable> = {
+  "neet-pg": {
+    examId: "neet-pg",
+    version: "2024.1",
+    candidates: 210000,
+    points: [
+      { marks: 800, rank: 1 },
+      { marks: 700, rank: 120 },
+      { marks: 650, rank: 800 },
+      { marks: 600, rank: 3500 },
+      { marks: 550, rank: 10000 },
+      { marks: 500, rank: 22000 },
+      { marks: 450, rank: 40000 },
+      { marks: 400, rank: 63000 },
+      { marks: 350, rank: 88000 },
+      { marks: 300, rank: 115000 },
+      { marks: 250, rank: 140000 },
+      { marks: 200, rank: 162000 },
+      { marks: 150, rank: 180000 },
+      { marks: 100, rank: 194000 },
+      { marks: 50, rank: 204000 },
+      { marks: 0, rank: 210000 }
+    ]
+  },
+  "ini-cet": {
+    examId: "ini-cet",
+    version: "2024.1",
+    candidates: 80000,
+    points: [
+      { marks: 200, rank: 1 },
+      { marks: 170, rank: 50 },
+      { marks: 150, rank: 400 },
+      { marks: 130, rank: 2000 },
+      { marks: 110, rank: 6000 },
+      { marks: 100, rank: 10000 },
+      { marks: 90, rank: 16000 },
+      { marks: 80, rank: 24000 },
+      { marks: 70, rank: 33000 },
+      { marks: 60, rank: 43000 },
+      { marks: 50, rank: 53000 },
+      { marks: 40, rank: 62000 },
+      { marks: 20, rank: 74000 },
+      { marks: 0, rank: 80000 }
+    ]
+  },
+  "fmge": {
+    examId: "fmge",
+    version: "2024.1",
+    candidates: 60000,
+    points: [
+      { marks: 300, rank: 1 },
+      { marks: 250, rank: 200 },
+      { marks: 220, rank: 1500 },
+      { marks: 200, rank: 4000 },
+      { marks: 180, rank: 8000 },
+      { marks: 165, rank: 12000 },
+      { marks: 150, rank: 16000 },
+      { marks: 135, rank: 22000 },
+      { marks: 120, rank: 30000 },
+      { marks: 100, rank: 40000 },
+      { marks: 80, rank: 50000 },
+      { marks: 50, rank: 57000 },
+      { marks: 0, rank: 60000 }
+    ]
+  }
+};
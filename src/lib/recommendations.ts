@@ -0,0 +1,157 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { ConfidenceLevel, DifficultyLevel, Session, SessionType, SubjectType } from "@/types/database";
+import {
+  ExamProfile,
+  getExamSubjects,
+  getExpectedQuestions,
+  getSubjectWeight,
+  getTotalWeight
+} from "@/lib/examProfiles";
+import { ScoringResult, calculatePrepScoreWithMocks, groupSessionsBySubject } from "@/lib/scoring";
+
+// Share of the remaining headroom an hour of focused study is assumed to win back
+const LEARNING_RATE = 0.1;
+// Used until the user has timed sessions of their own
+const DEFAULT_MINUTES_PER_QUESTION = 1;
+// Accuracy assumed for a subject with no sessions yet
+const DEFAULT_ACCURACY = 0.5;
+// Days without practice before a subject is called out as stale
+const STALE_AFTER_DAYS = 14;
+// Sessions below which a subject's score is called out as thin on data
+const MIN_COVERAGE_SESSIONS = 3;
+
+export interface Recommendation {
+  subject: SubjectType;
+  score: number;
+  /** Expected points on the overall prediction score from one more hour on the subject. */
+  gainPerHour: number;
+  /** Session type that gains the most for the hour. */
+  sessionType: SessionType;
+  daysSinceLast: number | null;
+  reasons: string[];
+}
+
+export interface RecommendationOptions {
+  examProfile: ExamProfile;
+  now?: () => number;
+}
+
+// Most common value across the sessions, or the fallback when there are none
+function mostCommon<T extends string>(values: T[], fallback: T): T {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best = fallback;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+function minutesPerQuestion(sessions: Session[]): number {
+  const timed = sessions.filter(session => session.time_taken > 0);
+  const questions = timed.reduce((sum, session) => sum + session.total_questions, 0);
+  return questions > 0
+    ? timed.reduce((sum, session) => sum + session.time_taken, 0) / questions
+    : DEFAULT_MINUTES_PER_QUESTION;
+}
+
+// Ranks subjects by how much an hour of study is expected to add to the overall
+// score. The hour is simulated as one more session through the scoring engine at
+// a slightly improved accuracy, so weights, missing mocks, thin coverage and
+// recency decay of old sessions are all priced in the way the score itself is.
+// The session takes the subject's usual difficulty, confidence and guess rate,
+// so only the accuracy gain moves the score, not a change of multipliers.
+export function recommendSubjects(
+  sessions: Session[],
+  scoring: ScoringResult,
+  options: RecommendationOptions
+): Recommendation[] {
+  const { examProfile } = options;
+  const now = (options.now ?? Date.now)();
+  const today = format(new Date(now), "yyyy-MM-dd");
+  const totalWeight = getTotalWeight(examProfile);
+  const questionsPerHour = Math.max(1, Math.round(60 / minutesPerQuestion(sessions)));
+  const bySubject = groupSessionsBySubject(sessions);
+
+  return getExamSubjects(examProfile)
+    .map(subject => {
+      const result = scoring.subjects.find(s => s.subject === subject);
+      const score = result?.score ?? 0;
+      const weight = getSubjectWeight(examProfile, subject);
+      const data = bySubject[subject] || { practice: [], mock: [] };
+      const subjectSessions = [...data.practice, ...data.mock];
+
+      const questions = subjectSessions.reduce((sum, session) => sum + session.total_questions, 0);
+      const correct = subjectSessions.reduce((sum, session) => sum + session.correct_questions, 0);
+      const accuracy = questions > 0 ? correct / questions : DEFAULT_ACCURACY;
+      const studiedAccuracy = accuracy + (1 - accuracy) * LEARNING_RATE;
+      const difficulty = mostCommon<DifficultyLevel>(subjectSessions.map(session => session.difficulty), "medium");
+      const confidence = mostCommon<ConfidenceLevel>(subjectSessions.map(session => session.confidence), "medium");
+      const guessPercent = subjectSessions.length > 0
+        ? subjectSessions.reduce((sum, session) => sum + session.guess_percent, 0) / subjectSessions.length
+        : 0;
+
+      const simulateHour = (type: SessionType) => {
+        const correctQuestions = Math.round(questionsPerHour * studiedAccuracy);
+        const hour: Session = {
+          id: `recommend-${subject}-${type}`,
+          user_id: "",
+          subject,
+          topic: null,
+          correct_questions: correctQuestions,
+          incorrect_questions: questionsPerHour - correctQuestions,
+          unattempted_questions: 0,
+          total_questions: questionsPerHour,
+          difficulty,
+          confidence,
+          guess_percent: guessPercent,
+          time_taken: 60,
+          type,
+          source: "manual",
+          practiced_on: today,
+          created_at: new Date(now).toISOString()
+        };
+        const next = { ...data, [type]: [...data[type], hour] };
+        const simulated = calculatePrepScoreWithMocks({ [subject]: next }, { examProfile, now: () => now });
+        const newScore = simulated.subjects.find(s => s.subject === subject)?.score ?? score;
+        return (newScore - score) * weight / totalWeight;
+      };
+
+      const practiceGain = simulateHour("practice");
+      const mockGain = simulateHour("mock");
+      const lastPracticed = subjectSessions.reduce<string | null>(
+        (latest, session) => (!latest || session.practiced_on > latest ? session.practiced_on : latest),
+        null
+      );
+      const daysSinceLast = lastPracticed ? differenceInCalendarDays(new Date(now), parseISO(lastPracticed)) : null;
+
+      const reasons: string[] = [];
+      if (subjectSessions.length === 0) {
+        reasons.push("Not started yet");
+      } else {
+        if (data.mock.length === 0) reasons.push("No mock tests yet; mocks make up 60% of the subject score");
+        if (daysSinceLast !== null && daysSinceLast >= STALE_AFTER_DAYS) {
+          reasons.push(`Last practised ${daysSinceLast} days ago, so older results count for less`);
+        }
+        if (subjectSessions.length < MIN_COVERAGE_SESSIONS) {
+          reasons.push(`Only ${subjectSessions.length} session${subjectSessions.length !== 1 ? "s" : ""} logged`);
+        }
+        if (score < 50) reasons.push(`Score is ${Math.round(score)}/100`);
+      }
+      reasons.push(`Weight ${weight} · ~${getExpectedQuestions(examProfile, subject)} questions in ${examProfile.name}`);
+
+      return {
+        subject,
+        score,
+        gainPerHour: Math.max(practiceGain, mockGain),
+        sessionType: mockGain > practiceGain ? "mock" : "practice",
+        daysSinceLast,
+        reasons
+      } as Recommendation;
+    })
+    .sort((a, b) => b.gainPerHour - a.gainPerHour);
+}
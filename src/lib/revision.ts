@@ -0,0 +1,99 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Session, SubjectType } from "@/types/database";
+
+// Accuracy below which a review counts as failed and the cycle restarts
+const PASS_ACCURACY = 0.6;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 60;
+
+export type RevisionStatus = "overdue" | "due" | "upcoming";
+
+export interface RevisionItem {
+  subject: SubjectType;
+  /** Null for the subject as a whole. */
+  topic: string | null;
+  lastPracticed: string;
+  /** Accuracy of the most recent session, 0-1. */
+  lastAccuracy: number;
+  intervalDays: number;
+  dueOn: string;
+  status: RevisionStatus;
+  /** Days past the due date; negative while upcoming. */
+  daysOverdue: number;
+}
+
+// SM-2 style schedule: each passed review stretches the interval by an ease
+// factor that rises with accuracy; a failed review brings it back to one day.
+export function getRevisionInterval(accuracies: number[]): number {
+  let interval = 0;
+  let ease = INITIAL_EASE;
+  let passes = 0;
+
+  accuracies.forEach(accuracy => {
+    if (accuracy < PASS_ACCURACY) {
+      passes = 0;
+      interval = 1;
+    } else {
+      passes++;
+      interval = passes === 1 ? 1 : passes === 2 ? 3 : Math.round(interval * ease);
+    }
+    const quality = accuracy * 5;
+    ease = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  });
+
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, interval));
+}
+
+function toItem(subject: SubjectType, topic: string | null, sessions: Session[], today: Date): RevisionItem {
+  const ordered = [...sessions].sort((a, b) =>
+    a.practiced_on.localeCompare(b.practiced_on) || a.created_at.localeCompare(b.created_at));
+  // Several sessions on one day count as a single review at their combined accuracy
+  const byDay = new Map<string, { correct: number; total: number }>();
+  ordered.forEach(session => {
+    const day = byDay.get(session.practiced_on) || { correct: 0, total: 0 };
+    day.correct += session.correct_questions;
+    day.total += session.total_questions;
+    byDay.set(session.practiced_on, day);
+  });
+  const accuracies = Array.from(byDay.values()).map(day => (day.total > 0 ? day.correct / day.total : 0));
+
+  const lastPracticed = ordered[ordered.length - 1].practiced_on;
+  const intervalDays = getRevisionInterval(accuracies);
+  const dueOn = addDays(parseISO(lastPracticed), intervalDays);
+  const daysOverdue = differenceInCalendarDays(today, dueOn);
+
+  return {
+    subject,
+    topic,
+    lastPracticed,
+    lastAccuracy: accuracies[accuracies.length - 1],
+    intervalDays,
+    dueOn: format(dueOn, "yyyy-MM-dd"),
+    status: daysOverdue > 0 ? "overdue" : daysOverdue === 0 ? "due" : "upcoming",
+    daysOverdue
+  };
+}
+
+// One item per practised subject, plus one per topic that sessions were tagged with
+export function getRevisionSchedule(sessions: Session[], today: Date = new Date()): RevisionItem[] {
+  const groups = new Map<string, { subject: SubjectType; topic: string | null; sessions: Session[] }>();
+  const add = (subject: SubjectType, topic: string | null, session: Session) => {
+    const key = `${subject}|${topic ?? ""}`;
+    if (!groups.has(key)) groups.set(key, { subject, topic, sessions: [] });
+    groups.get(key).sessions.push(session);
+  };
+
+  sessions.forEach(session => {
+    add(session.subject, null, session);
+    if (session.topic) add(session.subject, session.topic, session);
+  });
+
+  return Array.from(groups.values())
+    .map(group => toItem(group.subject, group.topic, group.sessions, today))
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+}
+
+export function getRevisionQueue(sessions: Session[], today: Date = new Date()): RevisionItem[] {
+  return getRevisionSchedule(sessions, today).filter(item => item.status !== "upcoming");
+}
@@ -0,0 +1,167 @@
+import type { ScoreChangeCause, ScoreHistory, SessionType, SubjectSnapshot, SubjectType } from "@/types/database";
+import { ExamProfile, getSubjectWeight, getTotalWeight } from "@/lib/examProfiles";
+import { ScoringResult, SessionContribution, SessionScore, toSubjectSnapshots } from "@/lib/scoring";
+
+type SubjectSnapshots = Partial<Record<SubjectType, SubjectSnapshot>>;
+
+export interface SessionDriver {
+  sessionId: string;
+  subject: SubjectType;
+  type: SessionType;
+  change: "added" | "removed" | "updated";
+  /** Scoring of the session after the change, or before it for removed sessions. */
+  score: SessionScore;
+}
+
+export interface SubjectChange {
+  subject: SubjectType;
+  before: number;
+  after: number;
+  delta: number;
+  /** Points the change moves the overall score by, given the subject's weight. */
+  overallDelta: number;
+  sessions: SessionDriver[];
+}
+
+export interface ScoreExplanation {
+  before: number;
+  after: number;
+  delta: number;
+  /** Subjects that moved, biggest effect on the overall score first. */
+  subjects: SubjectChange[];
+  /** What triggered the change; null for history written before causes were recorded. */
+  cause: ScoreChangeCause | null;
+}
+
+export interface MultiplierFactor {
+  label: string;
+  value: number;
+}
+
+// Subject moves smaller than this are rounding noise
+const MIN_SUBJECT_DELTA = 0.01;
+
+export function getMultiplierFactors(score: SessionScore): MultiplierFactor[] {
+  return [
+    { label: "Difficulty", value: score.difficultyMultiplier },
+    { label: "Confidence", value: score.confidenceMultiplier },
+    { label: "Guess factor", value: score.guessFactor },
+    { label: "Recency", value: score.recentness }
+  ];
+}
+
+function sameScore(a: SessionScore, b: SessionScore): boolean {
+  return a.netAccuracy === b.netAccuracy
+    && a.difficultyMultiplier === b.difficultyMultiplier
+    && a.confidenceMultiplier === b.confidenceMultiplier
+    && a.guessFactor === b.guessFactor
+    && a.recentness === b.recentness;
+}
+
+function diffSubjects(
+  before: SubjectSnapshots,
+  after: SubjectSnapshots,
+  examProfile: ExamProfile,
+  drivers: SessionDriver[]
+): SubjectChange[] {
+  const totalWeight = getTotalWeight(examProfile);
+  const subjects = new Set([...Object.keys(before), ...Object.keys(after)] as SubjectType[]);
+
+  return Array.from(subjects)
+    .map(subject => {
+      const beforeScore = before[subject]?.score ?? 0;
+      const afterScore = after[subject]?.score ?? 0;
+      const delta = afterScore - beforeScore;
+      return {
+        subject,
+        before: beforeScore,
+        after: afterScore,
+        delta,
+        overallDelta: delta * getSubjectWeight(examProfile, subject) / totalWeight,
+        sessions: drivers.filter(driver => driver.subject === subject)
+      };
+    })
+    .filter(change => Math.abs(change.delta) >= MIN_SUBJECT_DELTA || change.sessions.length > 0)
+    .sort((a, b) => Math.abs(b.overallDelta) - Math.abs(a.overallDelta));
+}
+
+// Diff of two engine runs, e.g. before and after saving a session. Both runs
+// should use the same clock so recency doesn't show up as a change.
+export function explainScoreChange(
+  before: ScoringResult,
+  after: ScoringResult,
+  examProfile: ExamProfile,
+  cause: ScoreChangeCause
+): ScoreExplanation {
+  const beforeById = new Map(before.contributions.map(c => [c.sessionId, c]));
+  const afterById = new Map(after.contributions.map(c => [c.sessionId, c]));
+  const drivers: SessionDriver[] = [];
+  const addDriver = (contribution: SessionContribution, change: SessionDriver["change"]) => {
+    drivers.push({
+      sessionId: contribution.sessionId,
+      subject: contribution.subject,
+      type: contribution.type,
+      change,
+      score: contribution
+    });
+  };
+
+  after.contributions.forEach(contribution => {
+    const previous = beforeById.get(contribution.sessionId);
+    if (!previous) {
+      addDriver(contribution, "added");
+    } else if (previous.subject !== contribution.subject || previous.type !== contribution.type || !sameScore(previous, contribution)) {
+      addDriver(contribution, "updated");
+      // A session moved to another subject also changes the subject it left
+      if (previous.subject !== contribution.subject) addDriver(previous, "removed");
+    }
+  });
+  before.contributions.forEach(contribution => {
+    if (!afterById.has(contribution.sessionId)) addDriver(contribution, "removed");
+  });
+
+  return {
+    before: before.overall,
+    after: after.overall,
+    delta: after.overall - before.overall,
+    subjects: diffSubjects(toSubjectSnapshots(before), toSubjectSnapshots(after), examProfile, drivers),
+    cause
+  };
+}
+
+// Diff of the two most recent score_history entries. Sessions logged since the
+// earlier entry are listed as drivers, scored as they stand now.
+export function explainHistoryChange(
+  previous: ScoreHistory,
+  latest: ScoreHistory,
+  current: ScoringResult,
+  sessionDates: Map<string, string>,
+  examProfile: ExamProfile
+): ScoreExplanation {
+  const from = new Date(previous.created_at).getTime();
+  const to = new Date(latest.created_at).getTime();
+
+  const drivers: SessionDriver[] = current.contributions
+    .filter(contribution => {
+      const createdAt = sessionDates.get(contribution.sessionId);
+      const time = createdAt ? new Date(createdAt).getTime() : NaN;
+      return time > from && time <= to;
+    })
+    .map(contribution => ({
+      sessionId: contribution.sessionId,
+      subject: contribution.subject,
+      type: contribution.type,
+      change: "added",
+      score: contribution
+    }));
+
+  return {
+    before: previous.score,
+    after: latest.score,
+    delta: latest.score - previous.score,
+    subjects: previous.subject_scores && latest.subject_scores
+      ? diffSubjects(previous.subject_scores, latest.subject_scores, examProfile, drivers)
+      : [],
+    cause: latest.cause
+  };
+}
@@ -0,0 +1,162 @@
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, parseISO, startOfDay } from "date-fns";
+import type { ScoreHistory } from "@/types/database";
+import type { ScoreTrendPoint } from "@/lib/scoreTrend";
+
+// Highest plateau the fitted curve may level off at
+const MAX_CEILING = 100;
+// Only recent history sets the pace
+const FORECAST_WINDOW_DAYS = 60;
+// Days with a recorded score needed before a pace can be fitted
+const MIN_FORECAST_DAYS = 3;
+const Z_95 = 1.96;
+
+export interface SaturationFit {
+  /** Score the curve levels off at. */
+  ceiling: number;
+  /** Daily rate at which the gap to the ceiling closes; negative when scores are falling. */
+  rate: number;
+  /** Standard error of the rate. */
+  rateError: number;
+  /** Residual standard deviation of the log gap. */
+  residual: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  score: number;
+  range: [number, number];
+}
+
+export interface ScoreForecast {
+  examDate: string;
+  current: number;
+  expected: number;
+  low: number;
+  high: number;
+  /** Points per week at today's pace. */
+  weeklyPace: number;
+  points: ForecastPoint[];
+}
+
+export interface TargetOutlook {
+  target: number;
+  reachable: boolean;
+  /** Points per week needed from today to reach the target on exam day. */
+  requiredWeeklyPace: number;
+}
+
+const clamp = (value: number) => Math.min(MAX_CEILING, Math.max(0, value));
+// Keeps the log finite for scores at the ceiling
+const logGap = (ceiling: number, score: number) => Math.log(Math.max(0.1, ceiling - score));
+
+// Fits score = ceiling - gap * e^(-rate * day), a curve that flattens out as it
+// nears its ceiling. For a given ceiling this is least squares on the log of the
+// gap; the ceiling itself is the whole score above the best result so far that
+// leaves the smallest squared error in score terms.
+export function fitSaturationCurve(points: { day: number; score: number }[]): SaturationFit | null {
+  const n = points.length;
+  if (n < MIN_FORECAST_DAYS) return null;
+
+  const meanDay = points.reduce((sum, p) => sum + p.day, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.day - meanDay) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const best = Math.max(...points.map(p => p.score));
+  let fit: SaturationFit | null = null;
+  let fitError = Infinity;
+
+  for (let ceiling = Math.min(MAX_CEILING, Math.floor(best) + 1); ceiling <= MAX_CEILING; ceiling++) {
+    const gaps = points.map(p => logGap(ceiling, p.score));
+    const meanGap = gaps.reduce((sum, gap) => sum + gap, 0) / n;
+    const slope = points.reduce((sum, p, i) => sum + (p.day - meanDay) * (gaps[i] - meanGap), 0) / sxx;
+    const intercept = meanGap - slope * meanDay;
+    const predict = (day: number) => ceiling - Math.exp(intercept + slope * day);
+
+    const scoreError = points.reduce((sum, p) => sum + (p.score - predict(p.day)) ** 2, 0);
+    if (scoreError < fitError) {
+      const sse = points.reduce((sum, p, i) => sum + (gaps[i] - (intercept + slope * p.day)) ** 2, 0);
+      const residual = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+      fitError = scoreError;
+      fit = { ceiling, rate: -slope, rateError: residual / Math.sqrt(sxx), residual };
+    }
+  }
+
+  return fit;
+}
+
+// Last recorded score of each day in the window, as days relative to today
+function getDailyScores(history: ScoreHistory[], today: Date): { day: number; score: number }[] {
+  const byDay = new Map<number, number>();
+  history.forEach(entry => {
+    const day = differenceInCalendarDays(new Date(entry.created_at), today);
+    if (day > -FORECAST_WINDOW_DAYS && day <= 0) byDay.set(day, entry.score);
+  });
+  return Array.from(byDay.entries()).map(([day, score]) => ({ day, score }));
+}
+
+// Projects the latest score forward to the exam at the fitted pace. The band
+// widens with the uncertainty of the pace and the day-to-day noise around it.
+export function forecastScore(
+  history: ScoreHistory[],
+  examDate: string,
+  today: Date = new Date()
+): ScoreForecast | null {
+  const start = startOfDay(today);
+  const exam = parseISO(examDate);
+  if (history.length === 0 || differenceInCalendarDays(exam, start) <= 0) return null;
+
+  const fit = fitSaturationCurve(getDailyScores(history, start));
+  if (!fit) return null;
+
+  const current = history[history.length - 1].score;
+  const points = eachDayOfInterval({ start: addDays(start, 1), end: exam }).map((date, index) => {
+    const days = index + 1;
+    const gap = logGap(fit.ceiling, current) - fit.rate * days;
+    const spread = Z_95 * Math.sqrt((days * fit.rateError) ** 2 + fit.residual ** 2);
+    return {
+      date: format(date, "yyyy-MM-dd"),
+      score: clamp(fit.ceiling - Math.exp(gap)),
+      range: [
+        clamp(fit.ceiling - Math.exp(gap + spread)),
+        clamp(fit.ceiling - Math.exp(gap - spread))
+      ] as [number, number]
+    };
+  });
+  const last = points[points.length - 1];
+
+  return {
+    examDate,
+    current,
+    expected: last.score,
+    low: last.range[0],
+    high: last.range[1],
+    weeklyPace: fit.rate * Math.max(0, fit.ceiling - current) * 7,
+    points
+  };
+}
+
+export function getTargetOutlook(forecast: ScoreForecast, target: number, today: Date = new Date()): TargetOutlook {
+  const daysLeft = Math.max(1, differenceInCalendarDays(parseISO(forecast.examDate), startOfDay(today)));
+  return {
+    target,
+    reachable: forecast.expected >= target,
+    requiredWeeklyPace: (target - forecast.current) / daysLeft * 7
+  };
+}
+
+// Appends the forecast after the last day of the series; the last actual
+// score starts the dashed line so it joins the solid one
+export function withForecast(series: ScoreTrendPoint[], forecast: ScoreForecast): ScoreTrendPoint[] {
+  if (series.length === 0) return series;
+  const last = series[series.length - 1];
+  const joined = series.map((point, index) => index < series.length - 1 || point.score === null
+    ? point
+    : { ...point, forecast: point.score, forecastRange: [point.score, point.score] as [number, number] });
+
+  return [
+    ...joined,
+    ...forecast.points
+      .filter(point => point.date > last.date)
+      .map(point => ({ date: point.date, score: null, forecast: point.score, forecastRange: point.range }))
+  ];
+}
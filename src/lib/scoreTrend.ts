@@ -0,0 +1,86 @@
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, startOfDay } from "date-fns";
+import type { ScoreHistory } from "@/types/database";
+
+export type TrendWindow = "7d" | "30d" | "90d" | "all" | "custom";
+
+export const trendWindows: { id: TrendWindow; label: string; days?: number }[] = [
+  { id: "7d", label: "Last 7 days", days: 7 },
+  { id: "30d", label: "Last 30 days", days: 30 },
+  { id: "90d", label: "Last 90 days", days: 90 },
+  { id: "all", label: "Since the start" },
+  { id: "custom", label: "Custom range" }
+];
+
+export interface TrendRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ScoreTrendPoint {
+  date: string;
+  /** Latest score on or before the day; null before the first history entry. */
+  score: number | null;
+  range?: [number, number];
+  /** Score on the matching day of the previous period, when comparing. */
+  previousScore?: number | null;
+  /** Forecast score on days up to the exam, from src/lib/scoreForecast.ts. */
+  forecast?: number | null;
+  forecastRange?: [number, number];
+}
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function getTrendRange(
+  window: TrendWindow,
+  history: ScoreHistory[],
+  custom?: Partial<TrendRange>,
+  today: Date = new Date()
+): TrendRange {
+  const to = startOfDay(today);
+  if (window === "custom" && custom?.from) {
+    return { from: startOfDay(custom.from), to: startOfDay(custom.to ?? custom.from) };
+  }
+  if (window === "all" || window === "custom") {
+    // history is sorted oldest first
+    return { from: history.length > 0 ? startOfDay(new Date(history[0].created_at)) : to, to };
+  }
+  const days = trendWindows.find(w => w.id === window)?.days ?? 7;
+  return { from: addDays(to, -(days - 1)), to };
+}
+
+// The same number of days immediately before the range
+export function getPreviousRange(range: TrendRange): TrendRange {
+  const length = differenceInCalendarDays(range.to, range.from) + 1;
+  return { from: addDays(range.from, -length), to: addDays(range.from, -1) };
+}
+
+// One pass over history (sorted oldest first): each day takes the latest
+// record on or before it, so days without changes repeat the last score.
+export function buildDailySeries(history: ScoreHistory[], range: TrendRange): ScoreTrendPoint[] {
+  let index = 0;
+  let latest: ScoreHistory | null = null;
+
+  return eachDayOfInterval({ start: range.from, end: range.to }).map(day => {
+    const key = dayKey(day);
+    while (index < history.length && dayKey(new Date(history[index].created_at)) <= key) {
+      latest = history[index];
+      index++;
+    }
+    return {
+      date: key,
+      score: latest ? latest.score : null,
+      range: latest && latest.score_low !== null && latest.score_high !== null
+        ? [latest.score_low, latest.score_high]
+        : undefined
+    };
+  });
+}
+
+// Lines the previous period up day by day with the current one
+export function withPreviousPeriod(current: ScoreTrendPoint[], previous: ScoreTrendPoint[]): ScoreTrendPoint[] {
+  return current.map((point, i) => ({ ...point, previousScore: previous[i]?.score ?? null }));
+}
+
+export function formatTrendRange(range: TrendRange): string {
+  return `${format(range.from, "d MMM yyyy")} – ${format(range.to, "d MMM yyyy")}`;
+}
@@ -1,22 +1,113 @@
-export const subjectWeights = {
-  "Medicine": 15,
-  "Surgery": 12,
-  "OB-GYN": 10,
-  "Pediatrics": 6,
-  "Pathology": 6,
-  "Pharmacology": 6,
-  "Biochemistry": 5,
-  "Anatomy": 4,
-  "Physiology": 4,
-  "Microbiology": 5,
-  "Radiology": 5,
-  "Dermatology": 3,
-  "Psychiatry": 3,
-  "ENT": 2,
-  "Ophthalmology": 2,
-  "Anesthesia": 2,
-  "Forensic Medicine": 2
-};
+import type { GrandTest, Session, SessionType, SubjectSnapshot, SubjectType } from "@/types/database";
+import {
+  ExamProfile,
+  MarkingScheme,
+  getExamProfile,
+  getExamSubjects,
+  getSubjectWeight,
+  getTotalWeight
+} from "@/lib/examProfiles";
+import { grandTestsToSessions } from "@/lib/grandTests";
+
+// Share of a subject's score that comes from practice vs mock sessions
+const PRACTICE_SHARE = 0.4;
+const MOCK_SHARE = 0.6;
+
+// z-value for a 95% interval
+const INTERVAL_Z = 1.96;
+// Spread assumed between sessions when a bucket has a single session to go on
+const SINGLE_SESSION_SD = 0.2;
+// Standard deviation of a uniform 0-1 score, used when a bucket has no sessions at all
+const NO_DATA_SD = 0.29;
+
+export type SessionsBySubject = Partial<Record<SubjectType, Record<SessionType, Session[]>>>;
+
+export interface ScoringOptions {
+  /** Clock used for recency decay. Defaults to Date.now. */
+  now?: () => number;
+  /** Exam whose subjects and weights are scored. Defaults to NEET PG. */
+  examProfile?: ExamProfile;
+  /** Grand tests whose subject breakdowns count towards the mock component. */
+  grandTests?: GrandTest[];
+}
+
+export interface QuestionCounts {
+  correct: number;
+  incorrect: number;
+  unattempted: number;
+  attempted: number;
+  total: number;
+}
+
+export interface NetMarks {
+  net: number;
+  max: number;
+}
+
+export interface SessionScore {
+  accuracy: number;
+  /** Net marks over maximum marks under the exam's marking scheme, floored at 0. */
+  netAccuracy: number;
+  difficultyMultiplier: number;
+  confidenceMultiplier: number;
+  guessFactor: number;
+  recentness: number;
+  score: number;
+}
+
+export interface SessionContribution extends SessionScore {
+  sessionId: string;
+  subject: SubjectType;
+  type: SessionType;
+  /** Points this session adds to the overall score (out of 100). */
+  contribution: number;
+}
+
+export interface ScoreInterval {
+  low: number;
+  high: number;
+}
+
+export interface TopicScoreResult {
+  topic: string;
+  practiceScore: number;
+  mockScore: number;
+  score: number;
+  practiceCount: number;
+  mockCount: number;
+}
+
+export interface SubjectScoreResult {
+  subject: SubjectType;
+  weight: number;
+  /** Practice and mock components, scaled to 0-100 like the overall score. */
+  practiceScore: number;
+  mockScore: number;
+  score: number;
+  practiceCount: number;
+  mockCount: number;
+  /** 95% range for the subject score, on the same 0-100 scale. */
+  interval: ScoreInterval;
+  /** Net accuracy (0-100) the subject's sessions point to, without the score's multipliers. */
+  netAccuracy: number;
+  /** Topics that have at least one session, weakest first. Untagged sessions are not listed. */
+  topics: TopicScoreResult[];
+}
+
+export interface ScoringResult {
+  overall: number;
+  interval: ScoreInterval;
+  /**
+   * Expected net accuracy on the paper (0-100): subject net accuracies weighted
+   * like the score. Projected marks and ranks use this rather than the score,
+   * whose multipliers would overstate them.
+   */
+  expectedAccuracy: number;
+  expectedAccuracyInterval: ScoreInterval;
+  subjects: SubjectScoreResult[];
+  contributions: SessionContribution[];
+  computedAt: string;
+}
 
 export function getMultiplier(type: 'difficulty' | 'confidence', value: string): number {
   const map = {
@@ -26,55 +117,263 @@ export function getMultiplier(type: 'difficulty' | 'confidence', value: string):
   return map[type][value as keyof typeof map[typeof type]] || 1.0;
 }
 
-export function getRecentnessFactor(dateStr: string): number {
-  const daysOld = (Date.now() - new Date(dateStr).getTime()) / (1000 * 3600 * 24);
+export function getRecentnessFactor(dateStr: string, now: number = Date.now()): number {
+  // Future dates count as today rather than weighing more than a fresh session
+  const daysOld = Math.max(0, (now - new Date(dateStr).getTime()) / (1000 * 3600 * 24));
   return Math.exp(-daysOld / 30); // 1 month half-life decay
 }
 
-export function averageSessionScore(sessions: any[]): number {
+export function getQuestionCounts(session: Session): QuestionCounts {
+  const total = session.total_questions;
+  const correct = session.correct_questions;
+  // Older sessions only stored correct/total, so every miss is treated as a wrong attempt
+  const unattempted = session.unattempted_questions ?? 0;
+  const incorrect = session.incorrect_questions ?? Math.max(0, total - correct - unattempted);
+
+  return { correct, incorrect, unattempted, attempted: correct + incorrect, total };
+}
+
+export function getNetMarks(session: Session, marking: MarkingScheme): NetMarks {
+  const counts = getQuestionCounts(session);
+  return {
+    net: counts.correct * marking.correct
+      + counts.incorrect * marking.incorrect
+      + counts.unattempted * marking.unattempted,
+    max: counts.total * marking.correct
+  };
+}
+
+export function scoreSession(
+  session: Session,
+  now: number = Date.now(),
+  marking: MarkingScheme = getExamProfile().marking
+): SessionScore {
+  const accuracy = session.total_questions > 0
+    ? session.correct_questions / session.total_questions
+    : 0;
+  const { net, max } = getNetMarks(session, marking);
+  const netAccuracy = max > 0 ? Math.max(0, net / max) : 0;
+  const difficultyMultiplier = getMultiplier("difficulty", session.difficulty);
+  const confidenceMultiplier = getMultiplier("confidence", session.confidence);
+  const guessFactor = 1 - (session.guess_percent / 100) * 0.3;
+  const recentness = getRecentnessFactor(session.practiced_on, now);
+
+  return {
+    accuracy,
+    netAccuracy,
+    difficultyMultiplier,
+    confidenceMultiplier,
+    guessFactor,
+    recentness,
+    score: netAccuracy * difficultyMultiplier * confidenceMultiplier * guessFactor * recentness
+  };
+}
+
+export function averageSessionScore(
+  sessions: Session[],
+  now: number = Date.now(),
+  marking: MarkingScheme = getExamProfile().marking
+): number {
   if (!sessions || sessions.length === 0) return 0;
-  let total = 0;
+  const total = sessions.reduce((sum, session) => sum + scoreSession(session, now, marking).score, 0);
+  return total / sessions.length;
+}
+
+// Variance of the mean score of a bucket of sessions, combining how much the
+// sessions disagree with each other and how few questions they cover.
+export function sessionScoreVariance(
+  sessions: Session[],
+  now: number = Date.now(),
+  marking: MarkingScheme = getExamProfile().marking
+): number {
+  if (!sessions || sessions.length === 0) return NO_DATA_SD ** 2;
+
+  const scored = sessions.map(session => scoreSession(session, now, marking));
+  const n = scored.length;
+  const mean = scored.reduce((sum, s) => sum + s.score, 0) / n;
+  const spread = n > 1
+    ? scored.reduce((sum, s) => sum + (s.score - mean) ** 2, 0) / (n - 1)
+    : SINGLE_SESSION_SD ** 2;
+
+  const questions = sessions.reduce((sum, session) => sum + session.total_questions, 0);
+  const accuracy = Math.min(1, scored.reduce((sum, s) => sum + s.netAccuracy, 0) / n);
+  const questionNoise = questions > 0 ? accuracy * (1 - accuracy) / questions : NO_DATA_SD ** 2;
+
+  return spread / n + questionNoise;
+}
+
+// Net accuracy of a subject's sessions, weighted by question count and recency
+// so recent work counts for more without decaying the accuracy itself
+function netAccuracyOf(
+  sessions: Session[],
+  now: number,
+  marking: MarkingScheme
+): { accuracy: number; variance: number } {
+  if (sessions.length === 0) return { accuracy: 0, variance: NO_DATA_SD ** 2 };
+
+  const scored = sessions.map(session => ({
+    netAccuracy: scoreSession(session, now, marking).netAccuracy,
+    weight: session.total_questions * getRecentnessFactor(session.practiced_on, now)
+  }));
+  const totalWeight = scored.reduce((sum, s) => sum + s.weight, 0);
+  const n = scored.length;
+  const accuracy = totalWeight > 0
+    ? scored.reduce((sum, s) => sum + s.netAccuracy * s.weight, 0) / totalWeight
+    : scored.reduce((sum, s) => sum + s.netAccuracy, 0) / n;
+
+  const spread = n > 1
+    ? scored.reduce((sum, s) => sum + (s.netAccuracy - accuracy) ** 2, 0) / (n - 1)
+    : SINGLE_SESSION_SD ** 2;
+  const questions = sessions.reduce((sum, session) => sum + session.total_questions, 0);
+  const questionNoise = questions > 0 ? accuracy * (1 - accuracy) / questions : NO_DATA_SD ** 2;
+
+  return { accuracy, variance: spread / n + questionNoise };
+}
+
+// Multipliers can push a score past 100, so the interval is built around the
+// score clamped to [0, 100]; otherwise low could end up above the capped high
+function toInterval(score: number, variance: number): ScoreInterval {
+  const margin = INTERVAL_Z * Math.sqrt(variance) * 100;
+  const centre = Math.min(100, Math.max(0, score));
+  return {
+    low: Number(Math.max(0, centre - margin).toFixed(2)),
+    high: Number(Math.min(100, centre + margin).toFixed(2))
+  };
+}
+
+export function groupSessionsBySubject(sessions: Session[]): SessionsBySubject {
+  const dataBySubject: SessionsBySubject = {};
 
   sessions.forEach(session => {
-    const {
-      correct_questions: correctQuestions,
-      total_questions: totalQuestions,
-      difficulty,
-      confidence,
-      guess_percent: guessPercent,
-      created_at: date
-    } = session;
-
-    const accuracy = correctQuestions / totalQuestions;
-    const difficultyMult = getMultiplier("difficulty", difficulty);
-    const confidenceMult = getMultiplier("confidence", confidence);
-    const guessFactor = 1 - (guessPercent / 100) * 0.3;
-    const recentness = getRecentnessFactor(date);
-
-    const score = accuracy * difficultyMult * confidenceMult * guessFactor * recentness;
-    total += score;
+    if (!dataBySubject[session.subject]) {
+      dataBySubject[session.subject] = { practice: [], mock: [] };
+    }
+    dataBySubject[session.subject][session.type === 'practice' ? 'practice' : 'mock'].push(session);
   });
 
-  return total / sessions.length;
+  return dataBySubject;
 }
 
-export function calculatePrepScoreWithMocks(dataBySubject: Record<string, { practice: any[], mock: any[] }>): number {
+// Scores each topic like a subject of its own, blending its practice and mock sessions
+export function scoreTopics(
+  practiceSessions: Session[],
+  mockSessions: Session[],
+  now: number = Date.now(),
+  marking: MarkingScheme = getExamProfile().marking
+): TopicScoreResult[] {
+  const byTopic = new Map<string, Record<SessionType, Session[]>>();
+  const add = (session: Session, type: SessionType) => {
+    if (!session.topic) return;
+    if (!byTopic.has(session.topic)) byTopic.set(session.topic, { practice: [], mock: [] });
+    byTopic.get(session.topic)[type].push(session);
+  };
+  practiceSessions.forEach(session => add(session, 'practice'));
+  mockSessions.forEach(session => add(session, 'mock'));
+
+  return Array.from(byTopic, ([topic, data]) => {
+    const practiceScore = averageSessionScore(data.practice, now, marking);
+    const mockScore = averageSessionScore(data.mock, now, marking);
+    return {
+      topic,
+      practiceScore: practiceScore * 100,
+      mockScore: mockScore * 100,
+      score: (practiceScore * PRACTICE_SHARE + mockScore * MOCK_SHARE) * 100,
+      practiceCount: data.practice.length,
+      mockCount: data.mock.length
+    };
+  }).sort((a, b) => a.score - b.score);
+}
+
+export function calculatePrepScoreWithMocks(
+  dataBySubject: SessionsBySubject,
+  options: ScoringOptions = {}
+): ScoringResult {
+  const now = (options.now ?? Date.now)();
+  const examProfile = options.examProfile ?? getExamProfile();
+  const totalWeight = getTotalWeight(examProfile);
+
   let totalScore = 0;
-  let totalWeight = 0;
+  let totalVariance = 0;
+  let totalAccuracy = 0;
+  let accuracyVariance = 0;
+  const subjects: SubjectScoreResult[] = [];
+  const contributions: SessionContribution[] = [];
 
-  for (const subject in subjectWeights) {
-    const weight = subjectWeights[subject as keyof typeof subjectWeights];
+  for (const subject of getExamSubjects(examProfile)) {
+    const weight = getSubjectWeight(examProfile, subject);
     const data = dataBySubject[subject] || { practice: [], mock: [] };
     const practiceSessions = data.practice || [];
     const mockSessions = data.mock || [];
 
-    const practiceScore = averageSessionScore(practiceSessions);
-    const mockScore = averageSessionScore(mockSessions);
+    const practiceScore = averageSessionScore(practiceSessions, now, examProfile.marking);
+    const mockScore = averageSessionScore(mockSessions, now, examProfile.marking);
 
-    const subjectScore = (practiceScore * 0.4 + mockScore * 0.6);
+    const subjectScore = practiceScore * PRACTICE_SHARE + mockScore * MOCK_SHARE;
     totalScore += subjectScore * weight;
-    totalWeight += weight;
+
+    const subjectVariance = PRACTICE_SHARE ** 2 * sessionScoreVariance(practiceSessions, now, examProfile.marking)
+      + MOCK_SHARE ** 2 * sessionScoreVariance(mockSessions, now, examProfile.marking);
+    totalVariance += (weight / totalWeight) ** 2 * subjectVariance;
+
+    const net = netAccuracyOf([...practiceSessions, ...mockSessions], now, examProfile.marking);
+    totalAccuracy += net.accuracy * weight;
+    accuracyVariance += (weight / totalWeight) ** 2 * net.variance;
+
+    subjects.push({
+      subject,
+      weight,
+      practiceScore: practiceScore * 100,
+      mockScore: mockScore * 100,
+      score: subjectScore * 100,
+      practiceCount: practiceSessions.length,
+      mockCount: mockSessions.length,
+      interval: toInterval(subjectScore * 100, subjectVariance),
+      netAccuracy: net.accuracy * 100,
+      topics: scoreTopics(practiceSessions, mockSessions, now, examProfile.marking)
+    });
+
+    const addContributions = (sessions: Session[], type: SessionType, share: number) => {
+      sessions.forEach(session => {
+        const sessionScore = scoreSession(session, now, examProfile.marking);
+        contributions.push({
+          ...sessionScore,
+          sessionId: session.id,
+          subject,
+          type,
+          contribution: sessionScore.score / sessions.length * share * weight / totalWeight * 100
+        });
+      });
+    };
+    addContributions(practiceSessions, 'practice', PRACTICE_SHARE);
+    addContributions(mockSessions, 'mock', MOCK_SHARE);
   }
 
-  return Number((totalScore / totalWeight * 100).toFixed(2)); // Final score out of 100
-} 
\ No newline at end of file
+  const overall = Number((totalScore / totalWeight * 100).toFixed(2)); // Final score out of 100
+  const expectedAccuracy = Number((totalAccuracy / totalWeight * 100).toFixed(2));
+
+  return {
+    overall,
+    interval: toInterval(overall, totalVariance),
+    expectedAccuracy,
+    expectedAccuracyInterval: toInterval(expectedAccuracy, accuracyVariance),
+    subjects,
+    contributions,
+    computedAt: new Date(now).toISOString()
+  };
+}
+
+// Breakdown stored with each score_history entry
+export function toSubjectSnapshots(result: ScoringResult): Partial<Record<SubjectType, SubjectSnapshot>> {
+  return Object.fromEntries(result.subjects
+    .filter(subject => subject.practiceCount + subject.mockCount > 0)
+    .map(subject => [subject.subject, {
+      score: Number(subject.score.toFixed(2)),
+      score_low: subject.interval.low,
+      score_high: subject.interval.high
+    }]));
+}
+
+export function scoreSessions(sessions: Session[], options: ScoringOptions = {}): ScoringResult {
+  const allSessions = [...sessions, ...grandTestsToSessions(options.grandTests || [])];
+  return calculatePrepScoreWithMocks(groupSessionsBySubject(allSessions), options);
+}
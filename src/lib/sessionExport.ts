@@ -0,0 +1,55 @@
+import { format } from "date-fns";
+import type { ScoreHistory, Session } from "@/types/database";
+import { importFields } from "@/lib/sessionImport";
+
+// Same column names the import page expects for its "This app" preset, so exports round-trip
+const sessionColumns: (keyof Session)[] = [...importFields.map(({ field }) => field), "created_at"];
+const historyColumns: (keyof ScoreHistory)[] = ["created_at", "score", "score_low", "score_high", "cause"];
+
+function escapeCsv(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: (keyof T)[]): string {
+  const lines = [
+    columns.join(","),
+    ...rows.map(row => columns.map(column => escapeCsv(row[column])).join(","))
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export function sessionsToCsv(sessions: Session[]): string {
+  return toCsv(sessions, sessionColumns);
+}
+
+export function sessionsToJson(sessions: Session[]): string {
+  const rows = sessions.map(session => Object.fromEntries(sessionColumns.map(column => [column, session[column]])));
+  return JSON.stringify({ sessions: rows }, null, 2);
+}
+
+export function scoreHistoryToCsv(history: ScoreHistory[]): string {
+  return toCsv(history, historyColumns);
+}
+
+export function scoreHistoryToJson(history: ScoreHistory[]): string {
+  // The subject breakdown is nested, so it only goes into the JSON export
+  const rows = history.map(record => ({
+    ...Object.fromEntries(historyColumns.map(column => [column, record[column]])),
+    subject_scores: record.subject_scores
+  }));
+  return JSON.stringify({ score_history: rows }, null, 2);
+}
+
+export function exportFileName(prefix: string, extension: "csv" | "json"): string {
+  return `${prefix}-${format(new Date(), "yyyy-MM-dd")}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,356 @@
+import { format, isValid, parse } from "date-fns";
+import type {
+  ConfidenceLevel,
+  DifficultyLevel,
+  Session,
+  SessionType,
+  SubjectType
+} from "@/types/database";
+import type { SessionInsert } from "@/lib/sessionMutations";
+import { normalizeTopic } from "@/lib/topics";
+
+export type ImportField =
+  | "subject"
+  | "topic"
+  | "practiced_on"
+  | "type"
+  | "correct_questions"
+  | "incorrect_questions"
+  | "unattempted_questions"
+  | "total_questions"
+  | "difficulty"
+  | "confidence"
+  | "guess_percent"
+  | "time_taken";
+
+export const importFields: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "subject", label: "Subject", required: true },
+  { field: "topic", label: "Topic", required: false },
+  { field: "practiced_on", label: "Date", required: false },
+  { field: "type", label: "Type", required: false },
+  { field: "correct_questions", label: "Correct", required: true },
+  { field: "incorrect_questions", label: "Incorrect", required: false },
+  { field: "unattempted_questions", label: "Unattempted", required: false },
+  { field: "total_questions", label: "Total questions", required: true },
+  { field: "difficulty", label: "Difficulty", required: false },
+  { field: "confidence", label: "Confidence", required: false },
+  { field: "guess_percent", label: "Guess %", required: false },
+  { field: "time_taken", label: "Time (mins)", required: false }
+];
+
+/** Source column to read for each session field. */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportPreset {
+  id: string;
+  name: string;
+  /** Session type for rows that don't have one; platform exports are usually tests. */
+  defaultType: SessionType;
+  mapping: ColumnMapping;
+}
+
+// Presets follow the headers of each platform's results export. If a platform
+// renames a column, the mapping can still be fixed by hand on the import page.
+export const importPresets: ImportPreset[] = [
+  {
+    id: "app",
+    name: "This app (CSV/JSON export)",
+    defaultType: "practice",
+    mapping: Object.fromEntries(importFields.map(({ field }) => [field, field]))
+  },
+  {
+    id: "marrow",
+    name: "Marrow",
+    defaultType: "mock",
+    mapping: {
+      subject: "Subject",
+      practiced_on: "Date",
+      correct_questions: "Correct",
+      incorrect_questions: "Incorrect",
+      unattempted_questions: "Skipped",
+      total_questions: "Total Questions",
+      time_taken: "Time Taken (min)"
+    }
+  },
+  {
+    id: "prepladder",
+    name: "PrepLadder",
+    defaultType: "mock",
+    mapping: {
+      subject: "subject_name",
+      practiced_on: "attempted_on",
+      correct_questions: "correct_answers",
+      incorrect_questions: "wrong_answers",
+      unattempted_questions: "unattempted",
+      total_questions: "total_questions",
+      time_taken: "time_spent_minutes"
+    }
+  },
+  {
+    id: "dams",
+    name: "DAMS",
+    defaultType: "mock",
+    mapping: {
+      subject: "Subject",
+      practiced_on: "Test Date",
+      correct_questions: "Right",
+      incorrect_questions: "Wrong",
+      unattempted_questions: "Not Attempted",
+      total_questions: "Total",
+      time_taken: "Duration"
+    }
+  }
+];
+
+export type RawRow = Record<string, string>;
+
+export interface ParsedFile {
+  columns: string[];
+  rows: RawRow[];
+}
+
+export interface ImportRow {
+  /** 1-based position among the file's data rows. */
+  row: number;
+  session: SessionInsert | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+const subjectAliases: Record<string, SubjectType> = {
+  "medicine": "Medicine",
+  "general medicine": "Medicine",
+  "surgery": "Surgery",
+  "general surgery": "Surgery",
+  "ob-gyn": "OB-GYN",
+  "obgyn": "OB-GYN",
+  "obg": "OB-GYN",
+  "obstetrics and gynaecology": "OB-GYN",
+  "obstetrics & gynaecology": "OB-GYN",
+  "obstetrics and gynecology": "OB-GYN",
+  "pediatrics": "Pediatrics",
+  "paediatrics": "Pediatrics",
+  "pathology": "Pathology",
+  "pharmacology": "Pharmacology",
+  "biochemistry": "Biochemistry",
+  "anatomy": "Anatomy",
+  "physiology": "Physiology",
+  "microbiology": "Microbiology",
+  "radiology": "Radiology",
+  "radiodiagnosis": "Radiology",
+  "dermatology": "Dermatology",
+  "psychiatry": "Psychiatry",
+  "ent": "ENT",
+  "otorhinolaryngology": "ENT",
+  "ophthalmology": "Ophthalmology",
+  "anesthesia": "Anesthesia",
+  "anaesthesia": "Anesthesia",
+  "anesthesiology": "Anesthesia",
+  "forensic medicine": "Forensic Medicine",
+  "fmt": "Forensic Medicine",
+  "forensic medicine and toxicology": "Forensic Medicine"
+};
+
+const dateFormats = ["yyyy-MM-dd", "dd/MM/yyyy", "dd-MM-yyyy", "d MMM yyyy", "MMM d, yyyy"];
+
+export function parseCsv(text: string): ParsedFile {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ""));
+  const [header = [], ...body] = nonEmpty;
+  const columns = header.map(column => column.trim());
+
+  return {
+    columns,
+    rows: body.map(values => Object.fromEntries(columns.map((column, i) => [column, (values[i] ?? "").trim()])))
+  };
+}
+
+export function parseJson(text: string): ParsedFile {
+  const data = JSON.parse(text);
+  const list: unknown[] = Array.isArray(data) ? data : data?.sessions;
+  if (!Array.isArray(list)) {
+    throw new Error("Expected a JSON array of sessions or an object with a \"sessions\" array");
+  }
+
+  const columns = new Set<string>();
+  const rows = list.map(item => {
+    const row: RawRow = {};
+    Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+      columns.add(key);
+      row[key] = value === null || value === undefined ? "" : String(value);
+    });
+    return row;
+  });
+
+  return { columns: Array.from(columns), rows };
+}
+
+export function parseImportFile(fileName: string, text: string): ParsedFile {
+  return fileName.toLowerCase().endsWith(".json") ? parseJson(text) : parseCsv(text);
+}
+
+// Keeps preset columns that exist in the file and matches the rest by name
+export function resolveMapping(columns: string[], preset: ImportPreset): ColumnMapping {
+  const byLowerName = new Map(columns.map(column => [column.toLowerCase(), column]));
+  const mapping: ColumnMapping = {};
+
+  importFields.forEach(({ field }) => {
+    const candidate = preset.mapping[field];
+    mapping[field] = (candidate && byLowerName.get(candidate.toLowerCase())) || byLowerName.get(field);
+  });
+
+  return mapping;
+}
+
+export function normalizeSubject(value: string): SubjectType | null {
+  return subjectAliases[value.trim().toLowerCase().replace(/\s+/g, " ")] ?? null;
+}
+
+function parseDate(value: string): string | null {
+  for (const dateFormat of dateFormats) {
+    const date = parse(value.trim(), dateFormat, new Date());
+    if (isValid(date)) return format(date, "yyyy-MM-dd");
+  }
+  const fallback = new Date(value);
+  return isValid(fallback) ? format(fallback, "yyyy-MM-dd") : null;
+}
+
+function pickOption<T extends string>(value: string, options: readonly T[], fallback: T): T | null {
+  if (!value) return fallback;
+  const match = options.find(option => option === value.trim().toLowerCase());
+  return match ?? null;
+}
+
+function duplicateKey(session: Pick<Session, "subject" | "type" | "practiced_on" | "correct_questions" | "total_questions">) {
+  return [session.subject, session.type, session.practiced_on, session.correct_questions, session.total_questions].join("|");
+}
+
+export function validateRows(
+  rows: RawRow[],
+  mapping: ColumnMapping,
+  options: { userId: string; defaultType: SessionType; existing: Session[]; today?: Date }
+): ImportRow[] {
+  const seen = new Set(options.existing.map(duplicateKey));
+  const today = format(options.today ?? new Date(), "yyyy-MM-dd");
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const read = (field: ImportField) => (mapping[field] ? row[mapping[field]] ?? "" : "");
+    const readCount = (field: ImportField, label: string, required: boolean): number | null => {
+      const value = read(field);
+      if (value === "") {
+        if (required) errors.push(`${label} is missing`);
+        return null;
+      }
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 0) {
+        errors.push(`${label} must be a whole number`);
+        return null;
+      }
+      return count;
+    };
+    // Minutes and percentages are stored whole, but exports often carry decimals
+    const readRounded = (field: ImportField, label: string): number | null => {
+      const value = read(field);
+      if (value === "") return null;
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0) {
+        errors.push(`${label} must be a number of at least 0`);
+        return null;
+      }
+      return Math.round(number);
+    };
+
+    const subject = normalizeSubject(read("subject"));
+    if (!subject) errors.push(`Unknown subject "${read("subject")}"`);
+
+    const topic = subject && read("topic") ? normalizeTopic(subject, read("topic")) : null;
+    if (subject && read("topic") && !topic) errors.push(`Unknown ${subject} topic "${read("topic")}"`);
+
+    const practicedOn = read("practiced_on") ? parseDate(read("practiced_on")) : today;
+    if (!practicedOn) errors.push(`Unrecognised date "${read("practiced_on")}"`);
+    else if (practicedOn > today) errors.push("Date is in the future");
+
+    const type = pickOption(read("type"), ["practice", "mock"] as const, options.defaultType);
+    if (!type) errors.push("Type must be practice or mock");
+    const difficulty = pickOption<DifficultyLevel>(read("difficulty"), ["easy", "medium", "hard"], "medium");
+    if (!difficulty) errors.push("Difficulty must be easy, medium or hard");
+    const confidence = pickOption<ConfidenceLevel>(read("confidence"), ["low", "medium", "high"], "medium");
+    if (!confidence) errors.push("Confidence must be low, medium or high");
+
+    const correct = readCount("correct_questions", "Correct", true);
+    const incorrect = readCount("incorrect_questions", "Incorrect", false);
+    const unattempted = readCount("unattempted_questions", "Unattempted", false);
+    const total = readCount("total_questions", "Total questions", true);
+    const guessPercent = readRounded("guess_percent", "Guess %") ?? 0;
+    const timeTaken = readRounded("time_taken", "Time") ?? 0;
+
+    if (total === 0) errors.push("Total questions must be at least 1");
+    if (total !== null && correct !== null && correct + (incorrect ?? 0) + (unattempted ?? 0) > total) {
+      errors.push("Correct, incorrect and unattempted add up to more than the total");
+    }
+    if (guessPercent > 100) errors.push("Guess % cannot exceed 100");
+
+    if (errors.length > 0) {
+      return { row: index + 1, session: null, errors, duplicate: false };
+    }
+
+    const session: SessionInsert = {
+      user_id: options.userId,
+      subject,
+      topic,
+      type,
+      practiced_on: practicedOn,
+      correct_questions: correct,
+      incorrect_questions: incorrect,
+      unattempted_questions: unattempted,
+      total_questions: total,
+      difficulty,
+      confidence,
+      guess_percent: guessPercent,
+      time_taken: timeTaken,
+      source: "import"
+    };
+
+    const key = duplicateKey(session);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    return { row: index + 1, session, errors, duplicate };
+  });
+}
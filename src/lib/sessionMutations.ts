@@ -0,0 +1,25 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/types/database";
+
+type SessionsTable = Database["public"]["Tables"]["sessions"];
+export type SessionInsert = SessionsTable["Insert"];
+export type SessionUpdate = SessionsTable["Update"];
+
+// Every session write goes through these helpers. Each write fires the sessions
+// triggers, which recompute the prediction score and append a score_history
+// entry tagged with the kind of change.
+
+export async function createSessions(sessions: SessionInsert[]): Promise<void> {
+  const { error } = await supabase.from("sessions").insert(sessions);
+  if (error) throw error;
+}
+
+export async function updateSession(id: string, changes: SessionUpdate): Promise<void> {
+  const { error } = await supabase.from("sessions").update(changes).eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const { error } = await supabase.from("sessions").delete().eq("id", id);
+  if (error) throw error;
+}
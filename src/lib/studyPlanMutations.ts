@@ -0,0 +1,15 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { PlannedBlock } from "@/lib/studyPlanner";
+
+// Replaces the signed-in user's plan from today onwards; earlier days are kept
+// for adherence. The delete and insert run in one transaction, so on failure
+// the previous plan is left as it was.
+export async function saveStudyPlan(blocks: PlannedBlock[], today: Date = new Date()): Promise<void> {
+  const { error } = await supabase.rpc("replace_study_plan", {
+    plan_start: format(today, "yyyy-MM-dd"),
+    blocks
+  });
+
+  if (error) throw error;
+}
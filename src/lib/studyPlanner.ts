@@ -0,0 +1,163 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Session, StudyPlanBlock, SubjectType } from "@/types/database";
+import { ExamProfile, getExamSubjects, getSubjectWeight } from "@/lib/examProfiles";
+import type { ScoringResult } from "@/lib/scoring";
+
+// Length of one planned block; a day's leftover time becomes a shorter block
+const BLOCK_MINUTES = 60;
+const MIN_BLOCK_MINUTES = 15;
+// Headroom a subject keeps even at a perfect score, so strong subjects still get revised
+const MIN_HEADROOM = 0.1;
+// Used for sessions logged without a time
+const DEFAULT_MINUTES_PER_QUESTION = 1;
+
+export type PlannedBlock = Pick<StudyPlanBlock, "planned_on" | "subject" | "minutes">;
+
+export interface PlanInput {
+  examProfile: ExamProfile;
+  /** yyyy-MM-dd; the plan runs up to the day before. */
+  examDate: string;
+  dailyHours: number;
+  scoring: ScoringResult;
+  today?: Date;
+}
+
+export interface SubjectAllocation {
+  subject: SubjectType;
+  /** Share of the total study time, 0-1. */
+  share: number;
+}
+
+export interface SubjectAdherence {
+  subject: SubjectType;
+  plannedMinutes: number;
+  actualMinutes: number;
+}
+
+export interface DayAdherence {
+  date: string;
+  plannedMinutes: number;
+  actualMinutes: number;
+  /** Logged minutes that landed on a subject planned for the day, capped at the plan. */
+  matchedMinutes: number;
+  subjects: SubjectAdherence[];
+}
+
+export interface PlanAdherence {
+  days: DayAdherence[];
+  plannedMinutes: number;
+  matchedMinutes: number;
+  /** Matched over planned minutes, 0-1; null before any planned day has passed. */
+  rate: number | null;
+}
+
+// Time goes to subjects in proportion to their weight in the paper times the
+// score they still have to gain
+export function getSubjectAllocation(examProfile: ExamProfile, scoring: ScoringResult): SubjectAllocation[] {
+  const needs = getExamSubjects(examProfile).map(subject => {
+    const score = scoring.subjects.find(s => s.subject === subject)?.score ?? 0;
+    const headroom = Math.max(MIN_HEADROOM, (100 - score) / 100);
+    return { subject, need: getSubjectWeight(examProfile, subject) * headroom };
+  });
+  const total = needs.reduce((sum, item) => sum + item.need, 0);
+
+  return needs
+    .map(item => ({ subject: item.subject, share: total > 0 ? item.need / total : 0 }))
+    .sort((a, b) => b.share - a.share);
+}
+
+function getDailyBlocks(dailyHours: number): number[] {
+  const minutes = Math.round(dailyHours * 60);
+  const blocks = Array<number>(Math.floor(minutes / BLOCK_MINUTES)).fill(BLOCK_MINUTES);
+  const rest = minutes % BLOCK_MINUTES;
+  if (rest >= MIN_BLOCK_MINUTES) blocks.push(rest);
+  return blocks;
+}
+
+// Fills each day's blocks with the subject furthest behind its allocation,
+// avoiding repeats within a day so subjects are interleaved across the calendar
+export function buildStudyPlan(input: PlanInput): PlannedBlock[] {
+  const today = input.today ?? new Date();
+  const days = differenceInCalendarDays(parseISO(input.examDate), today);
+  const dailyBlocks = getDailyBlocks(input.dailyHours);
+  if (days <= 0 || dailyBlocks.length === 0) return [];
+
+  const allocation = getSubjectAllocation(input.examProfile, input.scoring);
+  const totalMinutes = days * dailyBlocks.reduce((sum, minutes) => sum + minutes, 0);
+  const remaining = new Map(allocation.map(item => [item.subject, item.share * totalMinutes]));
+  const plan: PlannedBlock[] = [];
+
+  for (let day = 0; day < days; day++) {
+    const plannedOn = format(addDays(today, day), "yyyy-MM-dd");
+    const usedToday = new Set<SubjectType>();
+
+    dailyBlocks.forEach(minutes => {
+      const candidates = allocation.filter(item => !usedToday.has(item.subject));
+      const pool = candidates.length > 0 ? candidates : allocation;
+      const subject = pool.reduce((best, item) =>
+        remaining.get(item.subject) > remaining.get(best.subject) ? item : best).subject;
+
+      remaining.set(subject, remaining.get(subject) - minutes);
+      usedToday.add(subject);
+      plan.push({ planned_on: plannedOn, subject, minutes });
+    });
+  }
+
+  return plan;
+}
+
+function getSessionMinutes(session: Session): number {
+  return session.time_taken > 0 ? session.time_taken : session.total_questions * DEFAULT_MINUTES_PER_QUESTION;
+}
+
+// Compares planned blocks up to today with the sessions logged on the same day
+// for the same subject. Time on unplanned subjects shows as actual but never
+// counts towards the match.
+export function getPlanAdherence(
+  blocks: PlannedBlock[],
+  sessions: Session[],
+  today: Date = new Date()
+): PlanAdherence {
+  const todayKey = format(today, "yyyy-MM-dd");
+  const byDay = new Map<string, Map<SubjectType, SubjectAdherence>>();
+  const entry = (date: string, subject: SubjectType) => {
+    if (!byDay.has(date)) byDay.set(date, new Map());
+    const subjects = byDay.get(date);
+    if (!subjects.has(subject)) subjects.set(subject, { subject, plannedMinutes: 0, actualMinutes: 0 });
+    return subjects.get(subject);
+  };
+
+  blocks
+    .filter(block => block.planned_on <= todayKey)
+    .forEach(block => {
+      entry(block.planned_on, block.subject).plannedMinutes += block.minutes;
+    });
+  sessions
+    .filter(session => byDay.has(session.practiced_on))
+    .forEach(session => {
+      entry(session.practiced_on, session.subject).actualMinutes += getSessionMinutes(session);
+    });
+
+  const days = Array.from(byDay.entries())
+    .map(([date, subjects]) => {
+      const list = Array.from(subjects.values());
+      return {
+        date,
+        plannedMinutes: list.reduce((sum, item) => sum + item.plannedMinutes, 0),
+        actualMinutes: list.reduce((sum, item) => sum + item.actualMinutes, 0),
+        matchedMinutes: list.reduce((sum, item) => sum + Math.min(item.plannedMinutes, item.actualMinutes), 0),
+        subjects: list
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const plannedMinutes = days.reduce((sum, day) => sum + day.plannedMinutes, 0);
+  const matchedMinutes = days.reduce((sum, day) => sum + day.matchedMinutes, 0);
+
+  return {
+    days,
+    plannedMinutes,
+    matchedMinutes,
+    rate: plannedMinutes > 0 ? matchedMinutes / plannedMinutes : null
+  };
+}
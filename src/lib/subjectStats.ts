@@ -0,0 +1,88 @@
+import { endOfDay, parseISO } from "date-fns";
+import type { Session, SubjectType } from "@/types/database";
+import { ExamProfile, getSubjectWeight, getTotalWeight } from "@/lib/examProfiles";
+import { calculatePrepScoreWithMocks, groupSessionsBySubject } from "@/lib/scoring";
+
+export interface SubjectTrendPoint {
+  date: string;
+  score: number;
+}
+
+export interface AccuracyBucket {
+  level: string;
+  sessions: number;
+  questions: number;
+  /** Correct over total questions across the bucket, 0-100. */
+  accuracy: number;
+}
+
+export interface SubjectContribution {
+  /** Points the subject currently adds to the overall score. */
+  points: number;
+  /** Points it would add at a perfect subject score. */
+  maxPoints: number;
+  /** Share of the overall score that comes from this subject, 0-100. */
+  share: number;
+}
+
+// Replays the engine as of each day the subject was practised. Only the
+// subject's own sessions affect its score, so the rest are left out.
+export function getSubjectTrend(
+  sessions: Session[],
+  subject: SubjectType,
+  examProfile: ExamProfile
+): SubjectTrendPoint[] {
+  const subjectSessions = sessions.filter(session => session.subject === subject);
+  const dates = Array.from(new Set(subjectSessions.map(session => session.practiced_on))).sort();
+
+  return dates.map(date => {
+    const upToDate = subjectSessions.filter(session => session.practiced_on <= date);
+    const result = calculatePrepScoreWithMocks(groupSessionsBySubject(upToDate), {
+      examProfile,
+      now: () => endOfDay(parseISO(date)).getTime()
+    });
+    const subjectResult = result.subjects.find(s => s.subject === subject);
+    return { date, score: Number((subjectResult?.score ?? 0).toFixed(2)) };
+  });
+}
+
+export function getAccuracyBy(
+  sessions: Session[],
+  key: "difficulty" | "confidence",
+  levels: string[]
+): AccuracyBucket[] {
+  return levels.map(level => {
+    const bucket = sessions.filter(session => session[key] === level);
+    const questions = bucket.reduce((sum, session) => sum + session.total_questions, 0);
+    const correct = bucket.reduce((sum, session) => sum + session.correct_questions, 0);
+    return {
+      level,
+      sessions: bucket.length,
+      questions,
+      accuracy: questions > 0 ? correct / questions * 100 : 0
+    };
+  });
+}
+
+// Minutes per question over sessions that recorded a time
+export function getMinutesPerQuestion(sessions: Session[]): number | null {
+  const timed = sessions.filter(session => session.time_taken > 0);
+  const questions = timed.reduce((sum, session) => sum + session.total_questions, 0);
+  if (questions === 0) return null;
+  return timed.reduce((sum, session) => sum + session.time_taken, 0) / questions;
+}
+
+export function getSubjectContribution(
+  subjectScore: number,
+  overall: number,
+  subject: SubjectType,
+  examProfile: ExamProfile
+): SubjectContribution {
+  const maxPoints = getSubjectWeight(examProfile, subject) / getTotalWeight(examProfile) * 100;
+  const points = subjectScore / 100 * maxPoints;
+  return {
+    points,
+    maxPoints,
+    share: overall > 0 ? points / overall * 100 : 0
+  };
+}
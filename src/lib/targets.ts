@@ -0,0 +1,74 @@
+import type { Profile, ScoreHistory, SubjectType } from "@/types/database";
+
+export interface ScoreTargets {
+  overall: number | null;
+  subjects: Partial<Record<SubjectType, number>>;
+}
+
+export interface TargetScores {
+  overall: number;
+  /** Null when the scores predate per-subject snapshots. */
+  subjects: Partial<Record<SubjectType, number>> | null;
+}
+
+export type TargetEventKind = "reached" | "regressed";
+
+export interface TargetEvent {
+  /** Null for the overall prediction score. */
+  subject: SubjectType | null;
+  kind: TargetEventKind;
+  target: number;
+  score: number;
+}
+
+export function getScoreTargets(profile: Pick<Profile, "target_score" | "subject_targets"> | null): ScoreTargets {
+  return {
+    overall: profile?.target_score ?? null,
+    subjects: profile?.subject_targets ?? {}
+  };
+}
+
+export function historyToTargetScores(entry: ScoreHistory): TargetScores {
+  return {
+    overall: entry.score,
+    subjects: entry.subject_scores
+      ? Object.fromEntries(Object.entries(entry.subject_scores).map(([subject, snapshot]) => [subject, snapshot.score]))
+      : null
+  };
+}
+
+function getEvent(subject: SubjectType | null, target: number, before: number, after: number): TargetEvent | null {
+  if (before < target && after >= target) return { subject, kind: "reached", target, score: after };
+  if (before >= target && after < target) return { subject, kind: "regressed", target, score: after };
+  return null;
+}
+
+// Targets crossed between two sets of scores, in either direction. A subject
+// missing from either side has no score to compare, so it never fires.
+export function getTargetEvents(before: TargetScores, after: TargetScores, targets: ScoreTargets): TargetEvent[] {
+  const events: TargetEvent[] = [];
+
+  if (targets.overall !== null) {
+    const event = getEvent(null, targets.overall, before.overall, after.overall);
+    if (event) events.push(event);
+  }
+
+  if (before.subjects && after.subjects) {
+    (Object.entries(targets.subjects) as [SubjectType, number][]).forEach(([subject, target]) => {
+      const from = before.subjects[subject];
+      const to = after.subjects[subject];
+      if (from === undefined || to === undefined) return;
+      const event = getEvent(subject, target, from, to);
+      if (event) events.push(event);
+    });
+  }
+
+  return events;
+}
+
+export function describeTargetEvent(event: TargetEvent): string {
+  const name = event.subject ?? "Your prediction score";
+  return event.kind === "reached"
+    ? `${name} reached its target of ${event.target} (now ${event.score.toFixed(1)})`
+    : `${name} dropped below its target of ${event.target} (now ${event.score.toFixed(1)})`;
+}
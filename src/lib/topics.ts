@@ -0,0 +1,81 @@
+import type { SubjectType } from "@/types/database";
+
+// Chapters each subject is commonly split into by NEET PG question banks.
+// Sessions may name one of these as their topic; it is optional and free of any weight.
+export const subjectTopics: Record<SubjectType, string[]> = {
+  "Medicine": [
+    "Cardiology", "Respiratory", "Nephrology", "Neurology", "Gastroenterology",
+    "Hepatology", "Endocrinology", "Hematology", "Rheumatology", "Infectious Diseases"
+  ],
+  "Surgery": [
+    "General Surgery", "Gastrointestinal Surgery", "Hepatobiliary", "Breast", "Thyroid & Endocrine",
+    "Urology", "Vascular", "Trauma", "Orthopedics", "Neurosurgery"
+  ],
+  "OB-GYN": [
+    "Normal Pregnancy", "Antenatal Care", "Labour", "Obstetric Complications", "Postpartum",
+    "Menstrual Disorders", "Infertility", "Contraception", "Gynecologic Oncology"
+  ],
+  "Pediatrics": [
+    "Growth & Development", "Neonatology", "Nutrition", "Immunization", "Genetics",
+    "Pediatric Infections", "Pediatric Cardiology", "Pediatric Neurology"
+  ],
+  "Pathology": [
+    "General Pathology", "Inflammation & Repair", "Neoplasia", "Hematology", "Immunopathology",
+    "Cardiovascular Pathology", "Renal Pathology", "CNS Pathology"
+  ],
+  "Pharmacology": [
+    "General Pharmacology", "Autonomic Nervous System", "CNS Drugs", "Cardiovascular Drugs",
+    "Chemotherapy", "Antimicrobials", "Endocrine Drugs", "Autacoids"
+  ],
+  "Biochemistry": [
+    "Carbohydrate Metabolism", "Lipid Metabolism", "Protein & Amino Acids", "Enzymes",
+    "Vitamins", "Molecular Biology", "Inborn Errors of Metabolism"
+  ],
+  "Anatomy": [
+    "Upper Limb", "Lower Limb", "Thorax", "Abdomen", "Head & Neck",
+    "Neuroanatomy", "Embryology", "Histology"
+  ],
+  "Physiology": [
+    "General Physiology", "Nerve & Muscle", "Cardiovascular Physiology", "Respiratory Physiology",
+    "Renal Physiology", "Endocrine Physiology", "Neurophysiology", "Gastrointestinal Physiology"
+  ],
+  "Microbiology": [
+    "General Microbiology", "Immunology", "Bacteriology", "Virology", "Mycology", "Parasitology"
+  ],
+  "Radiology": [
+    "Radiation Physics", "Chest Imaging", "Neuroimaging", "Abdominal Imaging",
+    "Musculoskeletal Imaging", "Nuclear Medicine"
+  ],
+  "Dermatology": [
+    "Papulosquamous Disorders", "Vesiculobullous Disorders", "Infections & Infestations",
+    "Leprosy", "Sexually Transmitted Infections", "Pigmentary Disorders"
+  ],
+  "Psychiatry": [
+    "Psychotic Disorders", "Mood Disorders", "Anxiety Disorders", "Substance Use",
+    "Child Psychiatry", "Psychopharmacology"
+  ],
+  "ENT": [
+    "Ear", "Nose & Paranasal Sinuses", "Pharynx", "Larynx", "Head & Neck Oncology"
+  ],
+  "Ophthalmology": [
+    "Cornea", "Lens & Cataract", "Glaucoma", "Retina", "Uvea", "Neuro-ophthalmology", "Squint"
+  ],
+  "Anesthesia": [
+    "Preoperative Assessment", "Airway Management", "General Anesthesia",
+    "Regional Anesthesia", "Anesthetic Drugs", "Critical Care"
+  ],
+  "Forensic Medicine": [
+    "Identification", "Thanatology", "Injuries", "Asphyxial Deaths",
+    "Sexual Offences", "Toxicology", "Medical Jurisprudence"
+  ]
+};
+
+export function getSubjectTopics(subject: SubjectType | string): string[] {
+  return subjectTopics[subject as SubjectType] || [];
+}
+
+// Case-insensitive match against the subject's topics, for imported files
+export function normalizeTopic(subject: SubjectType, value: string): string | null {
+  const wanted = value.trim().toLowerCase().replace(/\s+/g, " ");
+  return getSubjectTopics(subject).find(topic => topic.toLowerCase() === wanted) ?? null;
+}
@@ -0,0 +1,89 @@
+import { format } from "date-fns";
+import type {
+  ConfidenceLevel,
+  DifficultyLevel,
+  GrandTest,
+  Session,
+  SessionType,
+  SubjectType
+} from "@/types/database";
+import { grandTestsToSessions } from "@/lib/grandTests";
+import {
+  ScoringOptions,
+  ScoringResult,
+  calculatePrepScoreWithMocks,
+  groupSessionsBySubject
+} from "@/lib/scoring";
+
+export interface HypotheticalSession {
+  subject: SubjectType;
+  type: SessionType;
+  /** Percentage of questions answered correctly, 0-100. */
+  accuracy: number;
+  totalQuestions: number;
+  difficulty: DifficultyLevel;
+  confidence: ConfidenceLevel;
+  guessPercent: number;
+}
+
+export interface WhatIfScenario {
+  sessions: HypotheticalSession[];
+  /** Accuracy (0-100) every session of the subject is re-scored at. */
+  accuracyOverrides: Partial<Record<SubjectType, number>>;
+}
+
+export const emptyScenario: WhatIfScenario = { sessions: [], accuracyOverrides: {} };
+
+// Hypothetical sessions are taken today and answer every question
+export function toSession(hypothetical: HypotheticalSession, index: number, today: Date = new Date()): Session {
+  const total = Math.max(1, Math.round(hypothetical.totalQuestions));
+  const correct = Math.round(total * Math.min(100, Math.max(0, hypothetical.accuracy)) / 100);
+  return {
+    id: `what-if-${index}`,
+    user_id: "",
+    subject: hypothetical.subject,
+    topic: null,
+    correct_questions: correct,
+    incorrect_questions: total - correct,
+    unattempted_questions: 0,
+    total_questions: total,
+    difficulty: hypothetical.difficulty,
+    confidence: hypothetical.confidence,
+    guess_percent: hypothetical.guessPercent,
+    time_taken: 0,
+    type: hypothetical.type,
+    source: "manual",
+    practiced_on: format(today, "yyyy-MM-dd"),
+    created_at: today.toISOString()
+  };
+}
+
+// Keeps each session's question count and skipped questions, and re-splits the
+// attempted ones so the session hits the given accuracy
+export function withAccuracy(session: Session, accuracy: number): Session {
+  const total = session.total_questions;
+  const correct = Math.round(total * Math.min(100, Math.max(0, accuracy)) / 100);
+  const unattempted = Math.min(session.unattempted_questions ?? 0, total - correct);
+  return {
+    ...session,
+    correct_questions: correct,
+    incorrect_questions: total - correct - unattempted,
+    unattempted_questions: unattempted
+  };
+}
+
+export function simulateScore(
+  sessions: Session[],
+  grandTests: GrandTest[],
+  scenario: WhatIfScenario,
+  options: Omit<ScoringOptions, "grandTests"> = {}
+): ScoringResult {
+  // Overrides rewrite logged results only; hypothetical sessions keep their own accuracy
+  const logged = [...sessions, ...grandTestsToSessions(grandTests)].map(session => {
+    const override = scenario.accuracyOverrides[session.subject];
+    return override === undefined ? session : withAccuracy(session, override);
+  });
+  const hypothetical = scenario.sessions.map((session, index) => toSession(session, index));
+
+  return calculatePrepScoreWithMocks(groupSessionsBySubject([...logged, ...hypothetical]), options);
+}
@@ -0,0 +1,328 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import type { SubjectType } from "@/types/database";
+import { getExamSubjects, getExpectedQuestions } from "@/lib/examProfiles";
+import { createGrandTest, GrandTestSubjectInsert } from "@/lib/grandTestMutations";
+import { useExamProfile } from "@/hooks/use-exam-profile";
+
+type BreakdownInput = { total: string; correct: string; incorrect: string };
+
+const emptyBreakdown: BreakdownInput = { total: "", correct: "", incorrect: "" };
+
+const AddGrandTest = () => {
+  const navigate = useNavigate();
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [name, setName] = useState("");
+  const [takenOn, setTakenOn] = useState<Date>(new Date());
+  const [marks, setMarks] = useState("");
+  const [rank, setRank] = useState("");
+  const [percentile, setPercentile] = useState("");
+  const [breakdown, setBreakdown] = useState<Partial<Record<SubjectType, BreakdownInput>>>({});
+  const [loading, setLoading] = useState(false);
+  const examProfile = useExamProfile(userSession?.user.id);
+  const subjects = getExamSubjects(examProfile);
+
+  useEffect(() => {
+    const checkUser = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        navigate("/auth");
+        return;
+      }
+      setUserSession(data.session);
+    };
+
+    checkUser();
+
+    const { data: authListener } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        if (event === "SIGNED_OUT") {
+          navigate("/auth");
+        } else if (session) {
+          setUserSession(session);
+        }
+      }
+    );
+
+    return () => {
+      authListener.subscription.unsubscribe();
+    };
+  }, [navigate]);
+
+  const updateBreakdown = (subject: SubjectType, field: keyof BreakdownInput, value: string) => {
+    setBreakdown({
+      ...breakdown,
+      [subject]: { ...(breakdown[subject] || emptyBreakdown), [field]: value }
+    });
+  };
+
+  // Subjects left blank are not part of this test
+  const subjectRows: GrandTestSubjectInsert[] = subjects
+    .map(subject => {
+      const input = breakdown[subject] || emptyBreakdown;
+      const total = parseInt(input.total) || 0;
+      const correct = parseInt(input.correct) || 0;
+      const incorrect = parseInt(input.incorrect) || 0;
+      return {
+        subject,
+        total_questions: total,
+        correct_questions: correct,
+        incorrect_questions: incorrect,
+        unattempted_questions: Math.max(0, total - correct - incorrect)
+      };
+    })
+    .filter(row => row.total_questions > 0);
+
+  const netMarks = subjectRows.reduce((sum, row) =>
+    sum + row.correct_questions * examProfile.marking.correct + row.incorrect_questions * examProfile.marking.incorrect, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error("Please enter the test name");
+      return;
+    }
+
+    if (subjectRows.length === 0) {
+      toast.error("Enter the breakdown for at least one subject");
+      return;
+    }
+
+    const invalidRow = subjectRows.find(row => row.correct_questions + row.incorrect_questions > row.total_questions);
+    if (invalidRow) {
+      toast.error(`${invalidRow.subject}: correct and incorrect cannot exceed total questions`);
+      return;
+    }
+
+    const percentileNum = percentile === "" ? null : parseFloat(percentile);
+    if (percentileNum !== null && (isNaN(percentileNum) || percentileNum < 0 || percentileNum > 100)) {
+      toast.error("Percentile must be between 0 and 100");
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      await createGrandTest({
+        user_id: userSession?.user.id,
+        name: name.trim(),
+        taken_on: format(takenOn, "yyyy-MM-dd"),
+        // Blank marks fall back to the net marks of the breakdown
+        marks: marks === "" ? Number(netMarks.toFixed(2)) : parseFloat(marks),
+        rank: parseInt(rank) || null,
+        percentile: percentileNum
+      }, subjectRows);
+
+      toast.success("Grand test added successfully!");
+      navigate("/grand-tests");
+    } catch (error: any) {
+      toast.error(`Error adding grand test: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4">
+        <Card className="max-w-4xl mx-auto">
+          <CardHeader>
+            <CardTitle>Add Grand Test</CardTitle>
+            <CardDescription>
+              Record a full-length test with its subject-wise breakdown
+            </CardDescription>
+          </CardHeader>
+
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="gt-name">Test Name</Label>
+                  <Input
+                    id="gt-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. GT 12"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gt-date">Test Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        id="gt-date"
+                        variant="outline"
+                        className="w-full justify-start text-left font-normal"
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {format(takenOn, "PPP")}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={takenOn}
+                        onSelect={(date) => date && setTakenOn(date)}
+                        disabled={(date) => date > new Date()}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gt-marks">Marks</Label>
+                  <Input
+                    id="gt-marks"
+                    type="number"
+                    step="any"
+                    value={marks}
+                    onChange={(e) => setMarks(e.target.value)}
+                    placeholder={`Leave blank to use ${Number(netMarks.toFixed(2))} from the breakdown`}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="gt-rank">Rank</Label>
+                    <Input
+                      id="gt-rank"
+                      type="number"
+                      min="1"
+                      value={rank}
+                      onChange={(e) => setRank(e.target.value)}
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="gt-percentile">Percentile</Label>
+                    <Input
+                      id="gt-percentile"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="any"
+                      value={percentile}
+                      onChange={(e) => setPercentile(e.target.value)}
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Questions</TableHead>
+                      <TableHead>Correct</TableHead>
+                      <TableHead>Incorrect</TableHead>
+                      <TableHead>Unattempted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {subjects.map((subject) => {
+                      const input = breakdown[subject] || emptyBreakdown;
+                      const unattempted = Math.max(0,
+                        (parseInt(input.total) || 0) - (parseInt(input.correct) || 0) - (parseInt(input.incorrect) || 0));
+                      return (
+                        <TableRow key={subject}>
+                          <TableCell className="font-medium">{subject}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-24"
+                              value={input.total}
+                              onChange={(e) => updateBreakdown(subject, "total", e.target.value)}
+                              placeholder={String(getExpectedQuestions(examProfile, subject))}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-24"
+                              value={input.correct}
+                              onChange={(e) => updateBreakdown(subject, "correct", e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-24"
+                              value={input.incorrect}
+                              onChange={(e) => updateBreakdown(subject, "incorrect", e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>{input.total ? unattempted : "-"}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+
+            <CardFooter className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => navigate("/grand-tests")}
+                type="button"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading || !name.trim() || subjectRows.length === 0}>
+                {loading ? "Saving..." : "Save Grand Test"}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AddGrandTest;
@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import {
@@ -14,6 +16,16 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -23,28 +35,45 @@ import {
 } from "@/components/ui/select";
 import { Session } from "@supabase/supabase-js";
 import DashboardHeader from "@/components/DashboardHeader";
-import { calculatePrepScoreWithMocks } from "@/lib/scoring";
+import ScoreExplanationPanel from "@/components/ScoreExplanationPanel";
+import type { GrandTest, Session as SessionRecord, SubjectType } from "@/types/database";
+import { getNetMarks, scoreSessions } from "@/lib/scoring";
+import { ScoreExplanation, explainScoreChange } from "@/lib/scoreExplain";
+import { GRAND_TEST_SELECT } from "@/lib/grandTests";
+import { createSessions, updateSession } from "@/lib/sessionMutations";
+import { getExamSubjects } from "@/lib/examProfiles";
+import { getSubjectTopics } from "@/lib/topics";
+import { useExamProfile } from "@/hooks/use-exam-profile";
 
-const subjects = [
-  "Medicine", "Surgery", "OB-GYN", "Pediatrics",
-  "Pathology", "Pharmacology", "Biochemistry", "Anatomy",
-  "Physiology", "Microbiology", "Radiology", "Dermatology",
-  "Psychiatry", "ENT", "Ophthalmology", "Anesthesia",
-  "Forensic Medicine"
-];
+const NO_TOPIC = "__none__";
 
 const AddSession = () => {
   const navigate = useNavigate();
-  const [subject, setSubject] = useState("");
+  // Rendered at /sessions/:id/edit to edit an existing session
+  const { id: sessionId } = useParams();
+  const isEditing = Boolean(sessionId);
+  // Links such as the revision queue pre-fill ?subject=&topic=
+  const [searchParams] = useSearchParams();
+  const [subject, setSubject] = useState(searchParams.get("subject") || "");
+  const [topic, setTopic] = useState(searchParams.get("topic") || NO_TOPIC);
   const [correctQuestions, setCorrectQuestions] = useState<string>("");
   const [totalQuestions, setTotalQuestions] = useState<string>("");
+  const [attemptedQuestions, setAttemptedQuestions] = useState<string>("");
   const [difficulty, setDifficulty] = useState<"easy" | "medium" | "hard">("medium");
   const [confidence, setConfidence] = useState<"low" | "medium" | "high">("medium");
   const [guessPercent, setGuessPercent] = useState<number>(0);
   const [timeTaken, setTimeTaken] = useState<string>("");
   const [sessionType, setSessionType] = useState<"practice" | "mock">("practice");
+  const [practicedOn, setPracticedOn] = useState<Date>(new Date());
   const [loading, setLoading] = useState(false);
+  const [loadingSession, setLoadingSession] = useState(isEditing);
   const [userSession, setUserSession] = useState<Session | null>(null);
+  // Current data, so the score change can be explained once the session is saved
+  const [existingSessions, setExistingSessions] = useState<SessionRecord[]>([]);
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
+  const [explanation, setExplanation] = useState<ScoreExplanation | null>(null);
+  const examProfile = useExamProfile(userSession?.user.id);
+  const subjects = getExamSubjects(examProfile);
 
   useEffect(() => {
     const checkUser = async () => {
@@ -54,6 +83,7 @@ const AddSession = () => {
         return;
       }
       setUserSession(data.session);
+      fetchScoringData(data.session.user.id);
     };
 
     checkUser();
@@ -73,15 +103,81 @@ const AddSession = () => {
     };
   }, [navigate]);
 
+  const fetchScoringData = async (userId: string) => {
+    const [sessionsResult, grandTestsResult] = await Promise.all([
+      supabase.from("sessions").select("*").eq("user_id", userId),
+      supabase.from("grand_tests").select(GRAND_TEST_SELECT).eq("user_id", userId)
+    ]);
+    // Only the post-save summary depends on this, so failures are not surfaced
+    setExistingSessions((sessionsResult.data || []) as SessionRecord[]);
+    setGrandTests((grandTestsResult.data || []) as GrandTest[]);
+  };
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const fetchSession = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("sessions")
+          .select("*")
+          .eq("id", sessionId)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+
+        const existing = data as SessionRecord;
+        setSubject(existing.subject);
+        setTopic(existing.topic ?? NO_TOPIC);
+        setCorrectQuestions(String(existing.correct_questions));
+        setTotalQuestions(String(existing.total_questions));
+        setAttemptedQuestions(existing.incorrect_questions !== null
+          ? String(existing.correct_questions + existing.incorrect_questions)
+          : "");
+        setDifficulty(existing.difficulty);
+        setConfidence(existing.confidence);
+        setGuessPercent(existing.guess_percent);
+        setTimeTaken(String(existing.time_taken));
+        setSessionType(existing.type);
+        setPracticedOn(parseISO(existing.practiced_on));
+      } catch (error: any) {
+        toast.error(`Error loading session: ${error.message}`);
+        navigate("/sessions");
+      } finally {
+        setLoadingSession(false);
+      }
+    };
+
+    fetchSession();
+  }, [sessionId, navigate]);
+
+  const correctQuestionsNum = parseInt(correctQuestions) || 0;
+  const totalQuestionsNum = parseInt(totalQuestions) || 0;
+  // A blank attempted count means every question was answered
+  const attemptedQuestionsNum = attemptedQuestions === "" ? totalQuestionsNum : parseInt(attemptedQuestions) || 0;
+  const incorrectQuestionsNum = Math.max(0, attemptedQuestionsNum - correctQuestionsNum);
+  const unattemptedQuestionsNum = Math.max(0, totalQuestionsNum - attemptedQuestionsNum);
+  const netMarks = getNetMarks({
+    correct_questions: correctQuestionsNum,
+    incorrect_questions: incorrectQuestionsNum,
+    unattempted_questions: unattemptedQuestionsNum,
+    total_questions: totalQuestionsNum
+  } as SessionRecord, examProfile.marking);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const correctQuestionsNum = parseInt(correctQuestions) || 0;
-    const totalQuestionsNum = parseInt(totalQuestions) || 0;
     const timeTakenNum = parseInt(timeTaken) || 0;
     
-    if (correctQuestionsNum > totalQuestionsNum) {
-      toast.error("Correct questions cannot exceed total questions");
+    if (attemptedQuestionsNum > totalQuestionsNum) {
+      toast.error("Attempted questions cannot exceed total questions");
+      return;
+    }
+
+    if (correctQuestionsNum > attemptedQuestionsNum) {
+      toast.error("Correct questions cannot exceed attempted questions");
       return;
     }
     
@@ -93,74 +189,51 @@ const AddSession = () => {
     try {
       setLoading(true);
       
-      const { error } = await supabase.from("sessions").insert({
-        user_id: userSession?.user.id,
-        subject,
+      const values = {
+        subject: subject as SubjectType,
+        topic: topic === NO_TOPIC ? null : topic,
         correct_questions: correctQuestionsNum,
+        incorrect_questions: incorrectQuestionsNum,
+        unattempted_questions: unattemptedQuestionsNum,
         total_questions: totalQuestionsNum,
         difficulty,
         confidence,
         guess_percent: guessPercent,
         time_taken: timeTakenNum,
-        type: sessionType
-      });
-
-      if (error) {
-        throw error;
-      }
-
-      // Calculate new score
-      const { data: sessions } = await supabase
-        .from("sessions")
-        .select("*")
-        .eq("user_id", userSession?.user.id);
-
-      if (sessions) {
-        // Group sessions by subject and type
-        const dataBySubject: Record<string, { practice: any[], mock: any[] }> = {};
-        
-        sessions.forEach(session => {
-          if (!dataBySubject[session.subject]) {
-            dataBySubject[session.subject] = { practice: [], mock: [] };
-          }
-          if (session.type === 'practice') {
-            dataBySubject[session.subject].practice.push(session);
-          } else {
-            dataBySubject[session.subject].mock.push(session);
-          }
-        });
+        type: sessionType,
+        practiced_on: format(practicedOn, "yyyy-MM-dd")
+      };
 
-        // Calculate new score
-        const newScore = calculatePrepScoreWithMocks(dataBySubject);
-
-        // Update profile with new score
-        const { error: updateError } = await supabase
-          .from("profiles")
-          .update({ prediction_score: newScore })
-          .eq("id", userSession?.user.id);
-
-        if (updateError) {
-          throw updateError;
-        }
-
-        // Record the score change in history
-        const { error: historyError } = await supabase
-          .from("score_history")
-          .insert({
-            user_id: userSession?.user.id,
-            score: newScore,
-            created_at: new Date().toISOString()
-          });
-
-        if (historyError) {
-          throw historyError;
-        }
+      // created_at is never sent, so an edit keeps the original audit timestamp
+      if (isEditing) {
+        await updateSession(sessionId, values);
+      } else {
+        await createSessions([{ user_id: userSession?.user.id, ...values }]);
       }
 
-      toast.success("Session added successfully!");
-      navigate("/dashboard");
+      // The prediction score and history are recomputed server-side by the sessions
+      // trigger; the same engine runs here to show what moved it
+      toast.success(isEditing ? "Session updated successfully!" : "Session added successfully!");
+      const now = Date.now();
+      const saved = {
+        ...existingSessions.find(s => s.id === sessionId),
+        ...values,
+        id: sessionId || "new",
+        user_id: userSession?.user.id,
+        source: "manual",
+        created_at: new Date(now).toISOString()
+      } as SessionRecord;
+      const after = isEditing
+        ? existingSessions.map(s => (s.id === sessionId ? saved : s))
+        : [...existingSessions, saved];
+      setExplanation(explainScoreChange(
+        scoreSessions(existingSessions, { examProfile, grandTests, now: () => now }),
+        scoreSessions(after, { examProfile, grandTests, now: () => now }),
+        examProfile,
+        isEditing ? "session_update" : "session_insert"
+      ));
     } catch (error: any) {
-      toast.error(`Error adding session: ${error.message}`);
+      toast.error(`Error ${isEditing ? "updating" : "adding"} session: ${error.message}`);
     } finally {
       setLoading(false);
     }
@@ -182,7 +255,7 @@ const AddSession = () => {
       <main className="container mx-auto py-8 px-4">
         <Card className="max-w-2xl mx-auto">
           <CardHeader>
-            <CardTitle>Add New Session</CardTitle>
+            <CardTitle>{isEditing ? "Edit Session" : "Add New Session"}</CardTitle>
             <CardDescription>
               Track your practice and mock test performance
             </CardDescription>
@@ -211,7 +284,10 @@ const AddSession = () => {
                   <Label htmlFor="subject">Subject</Label>
                   <Select 
                     value={subject} 
-                    onValueChange={setSubject}
+                    onValueChange={(value) => {
+                      setSubject(value);
+                      setTopic(NO_TOPIC);
+                    }}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select subject" />
@@ -226,6 +302,52 @@ const AddSession = () => {
                   </Select>
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="topic">Topic</Label>
+                  <Select
+                    value={topic}
+                    onValueChange={setTopic}
+                    disabled={!subject}
+                  >
+                    <SelectTrigger id="topic">
+                      <SelectValue placeholder="Select topic" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TOPIC}>Whole subject / mixed</SelectItem>
+                      {getSubjectTopics(subject).map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {t}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="practiced-on">Practice Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        id="practiced-on"
+                        variant="outline"
+                        className="w-full justify-start text-left font-normal"
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {format(practicedOn, "PPP")}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={practicedOn}
+                        onSelect={(date) => date && setPracticedOn(date)}
+                        disabled={(date) => date > new Date()}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="correct-questions">Correct Questions</Label>
                   <Input
@@ -250,6 +372,28 @@ const AddSession = () => {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="attempted-questions">Attempted Questions</Label>
+                  <Input
+                    id="attempted-questions"
+                    type="number"
+                    min="0"
+                    value={attemptedQuestions}
+                    onChange={(e) => setAttemptedQuestions(e.target.value)}
+                    placeholder="Leave blank if you attempted all"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Marks ({examProfile.name})</Label>
+                  <div className="text-sm text-gray-600 pt-2">
+                    {incorrectQuestionsNum} incorrect, {unattemptedQuestionsNum} unattempted
+                    <div className="font-medium text-gray-900">
+                      Net marks: {Number(netMarks.net.toFixed(2))} / {netMarks.max}
+                    </div>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="difficulty">Difficulty</Label>
                   <Select 
@@ -322,20 +466,40 @@ const AddSession = () => {
             <CardFooter className="flex justify-between">
               <Button 
                 variant="outline" 
-                onClick={() => navigate("/dashboard")}
+                onClick={() => navigate(isEditing ? "/sessions" : "/dashboard")}
                 type="button"
               >
                 Cancel
               </Button>
               <Button 
                 type="submit" 
-                disabled={loading || !subject || !totalQuestions || !timeTaken || parseInt(totalQuestions) < 1 || parseInt(timeTaken) < 1}
+                disabled={loading || loadingSession || !subject || !totalQuestions || !timeTaken || parseInt(totalQuestions) < 1 || parseInt(timeTaken) < 1}
               >
                 {loading ? "Saving..." : "Save Session"}
               </Button>
             </CardFooter>
           </form>
         </Card>
+
+        <Dialog
+          open={explanation !== null}
+          onOpenChange={(open) => !open && navigate(isEditing ? "/sessions" : "/dashboard")}
+        >
+          <DialogContent className="max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Why your score moved</DialogTitle>
+              <DialogDescription>
+                How this session changed your {examProfile.name} prediction score
+              </DialogDescription>
+            </DialogHeader>
+            {explanation && <ScoreExplanationPanel explanation={explanation} />}
+            <DialogFooter>
+              <Button onClick={() => navigate(isEditing ? "/sessions" : "/dashboard")}>
+                Continue
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </main>
     </div>
   );
@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from "recharts";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import type { Session as SessionRecord } from "@/types/database";
+import {
+  CalibrationVerdict,
+  getCalibrationCurve,
+  getCalibrationError,
+  getGuessRateTrend,
+  getSubjectCalibration,
+  getVerdict
+} from "@/lib/calibration";
+
+const ALL_SUBJECTS = "__all__";
+
+const verdictLabels: Record<CalibrationVerdict, string> = {
+  overconfident: "Overconfident",
+  underconfident: "Underconfident",
+  calibrated: "Well calibrated"
+};
+
+const verdictVariants: Record<CalibrationVerdict, "destructive" | "secondary" | "default"> = {
+  overconfident: "destructive",
+  underconfident: "secondary",
+  calibrated: "default"
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatBias = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}`;
+
+// Grand tests carry no self-reported confidence, so only sessions are analysed
+const Calibration = () => {
+  const navigate = useNavigate();
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [subjectFilter, setSubjectFilter] = useState<string>(ALL_SUBJECTS);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        if (!data.session) {
+          navigate("/auth");
+          return;
+        }
+        setUserSession(data.session);
+
+        const { data: sessionsData, error } = await supabase
+          .from("sessions")
+          .select("*")
+          .eq("user_id", data.session.user.id);
+
+        if (error) throw error;
+        setSessions(sessionsData || []);
+      } catch (error: any) {
+        toast.error(`Error loading sessions: ${error.message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [navigate]);
+
+  const subjectCalibration = useMemo(() => getSubjectCalibration(sessions), [sessions]);
+  const filtered = useMemo(
+    () => (subjectFilter === ALL_SUBJECTS ? sessions : sessions.filter(session => session.subject === subjectFilter)),
+    [sessions, subjectFilter]
+  );
+  const curve = useMemo(() => getCalibrationCurve(filtered), [filtered]);
+  const guessTrend = useMemo(() => getGuessRateTrend(filtered), [filtered]);
+
+  const calibrationError = getCalibrationError(curve);
+  const questions = curve.reduce((sum, bin) => sum + bin.questions, 0);
+  const overallBias = questions > 0
+    ? curve.reduce((sum, bin) => sum + (bin.stated - bin.actual) * bin.questions, 0) / questions
+    : null;
+  const curveData = curve.map(bin => ({
+    stated: bin.stated * 100,
+    actual: bin.actual * 100,
+    ideal: bin.stated * 100,
+    questions: bin.questions
+  }));
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-bold">Confidence Calibration</h2>
+            <p className="text-sm text-muted-foreground">
+              How your stated confidence compares with how often you are actually right.
+              Guessed questions are expected right at chance (25%).
+            </p>
+          </div>
+          <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+              {subjectCalibration.map((item) => (
+                <SelectItem key={item.subject} value={item.subject}>
+                  {item.subject}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <p>Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p>No sessions yet. Log a few sessions with a confidence level to see how well calibrated you are.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Calibration Error</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {calibrationError === null ? "-" : formatPercent(calibrationError)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  Average gap between stated and actual accuracy
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Confidence Bias</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {overallBias === null ? "-" : formatBias(overallBias)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  {overallBias === null ? "No attempted questions yet" : verdictLabels[getVerdict(overallBias)]}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Latest Guess Rate</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {guessTrend.length > 0 ? `${guessTrend[guessTrend.length - 1].guessRate.toFixed(0)}%` : "-"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  Share of questions guessed in your latest week of practice
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Calibration Curve</CardTitle>
+                  <CardDescription>
+                    Points below the diagonal mean you were right less often than you expected
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={curveData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="stated"
+                          type="number"
+                          domain={[0, 100]}
+                          tickFormatter={(value) => `${value}%`}
+                        />
+                        <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                        <Tooltip
+                          formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+                          labelFormatter={(label, payload) =>
+                            `Stated ${Number(label).toFixed(1)}% · ${payload?.[0]?.payload.questions ?? 0} questions`}
+                        />
+                        <Legend />
+                        <Line
+                          type="linear"
+                          dataKey="ideal"
+                          stroke="#94a3b8"
+                          strokeDasharray="5 5"
+                          name="Perfect calibration"
+                          dot={false}
+                        />
+                        <Line
+                          type="linear"
+                          dataKey="actual"
+                          stroke="#8884d8"
+                          name="Actual accuracy"
+                          dot={{ r: 4 }}
+                          strokeWidth={2}
+                        />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Guess Rate Trend</CardTitle>
+                  <CardDescription>Weekly share of questions guessed, with accuracy on attempted questions</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={guessTrend} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="week" tickFormatter={(week) => parseISO(week).toLocaleDateString()} />
+                        <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                        <Tooltip
+                          formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+                          labelFormatter={(week) => `Week of ${parseISO(week).toLocaleDateString()}`}
+                        />
+                        <Legend />
+                        <Line type="monotone" dataKey="guessRate" stroke="#f59e0b" name="Guess rate" strokeWidth={2} />
+                        <Line type="monotone" dataKey="accuracy" stroke="#82ca9d" name="Accuracy" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Subject</CardTitle>
+                <CardDescription>
+                  Bias is stated minus actual accuracy, in points; positive means overconfident
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Stated</TableHead>
+                      <TableHead>Actual</TableHead>
+                      <TableHead>Bias</TableHead>
+                      <TableHead>Sessions</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {subjectCalibration.map((item) => (
+                      <TableRow
+                        key={item.subject}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/subjects/${encodeURIComponent(item.subject)}`)}
+                      >
+                        <TableCell className="font-medium">{item.subject}</TableCell>
+                        <TableCell>{formatPercent(item.stated)}</TableCell>
+                        <TableCell>{formatPercent(item.actual)}</TableCell>
+                        <TableCell>{formatBias(item.bias)}</TableCell>
+                        <TableCell>{item.sessions}</TableCell>
+                        <TableCell>
+                          <Badge variant={verdictVariants[item.verdict]}>{verdictLabels[item.verdict]}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Calibration;
@@ -1,59 +1,89 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import type { DateRange } from "react-day-picker";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { PieChart, Pie, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PieChart, Pie, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import DashboardHeader from "@/components/DashboardHeader";
 import SubjectScoreCard from "@/components/SubjectScoreCard";
+import ProjectionSummary from "@/components/ProjectionSummary";
+import SubjectTrendChart from "@/components/SubjectTrendChart";
+import ScoreExplanationPanel from "@/components/ScoreExplanationPanel";
 import { BarChart, Bar } from "recharts";
 import { Session } from "@supabase/supabase-js";
-import { calculatePrepScoreWithMocks, getMultiplier, getRecentnessFactor } from "@/lib/scoring";
+import type { GrandTest, ScoreChangeCause, ScoreHistory, Session as SessionRecord, SubjectType } from "@/types/database";
+import { ScoreInterval, TopicScoreResult, scoreSessions } from "@/lib/scoring";
+import { getExamProfile } from "@/lib/examProfiles";
+import { GRAND_TEST_SELECT, grandTestsToSessions } from "@/lib/grandTests";
+import { recommendSubjects } from "@/lib/recommendations";
+import { getRevisionQueue } from "@/lib/revision";
+import { explainHistoryChange } from "@/lib/scoreExplain";
+import { centerInterval, projectScore } from "@/lib/projection";
+import { forecastScore, getTargetOutlook, withForecast } from "@/lib/scoreForecast";
+import { describeTargetEvent, getScoreTargets, getTargetEvents, historyToTargetScores } from "@/lib/targets";
+import {
+  ScoreTrendPoint,
+  TrendWindow,
+  buildDailySeries,
+  formatTrendRange,
+  getPreviousRange,
+  getTrendRange,
+  trendWindows,
+  withPreviousPeriod
+} from "@/lib/scoreTrend";
 
 // Types
-type SessionType = {
-  id: string;
-  subject: string;
-  correct_questions: number;
-  total_questions: number;
-  difficulty: "easy" | "medium" | "hard";
-  confidence: "low" | "medium" | "high";
-  guess_percent: number;
-  time_taken: number;
-  type: "practice" | "mock";
-  created_at: string;
-};
-
 type SubjectScore = {
   subject: string;
   score: number;
   count: number;
-  weight: number;
+  interval: ScoreInterval;
+  topics: TopicScoreResult[];
 };
 
-type ScoreTrend = {
-  date: string;
-  score: number;
-};
+const STUDY_NEXT_COUNT = 5;
+
+const formatGain = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+const REVISION_QUEUE_COUNT = 6;
 
-const subjectWeights = {
-  "Medicine": 15, "Surgery": 12, "OB-GYN": 10, "Pediatrics": 6,
-  "Pathology": 6, "Pharmacology": 6, "Biochemistry": 5, "Anatomy": 4,
-  "Physiology": 4, "Microbiology": 5, "Radiology": 5, "Dermatology": 3,
-  "Psychiatry": 3, "ENT": 2, "Ophthalmology": 2, "Anesthesia": 2,
-  "Forensic Medicine": 2
+const causeLabels: Record<ScoreChangeCause, string> = {
+  session_insert: "session added",
+  session_update: "session edited",
+  session_delete: "session deleted",
+  session_import: "sessions imported",
+  grand_test: "grand test",
+  exam_change: "target exam changed",
+  scheduled: "daily rescore"
 };
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const [sessions, setSessions] = useState<any[]>([]);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
   const [profile, setProfile] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [subjectScores, setSubjectScores] = useState<SubjectScore[]>([]);
-  const [scoreTrend, setScoreTrend] = useState<ScoreTrend[]>([]);
+  const [scoreHistory, setScoreHistory] = useState<ScoreHistory[]>([]);
+  const [trendWindow, setTrendWindow] = useState<TrendWindow>("7d");
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [comparePrevious, setComparePrevious] = useState(false);
   const [totalScore, setTotalScore] = useState<number>(0);
   const [userSession, setUserSession] = useState<Session | null>(null);
 
@@ -87,65 +117,26 @@ const Dashboard = () => {
 
         if (historyError) throw historyError;
 
-        // Generate last 7 days
-        const last7Days = generateLast7Days();
-        const trend: ScoreTrend[] = [];
-
-        // For each day, find the latest score before or on that day
-        last7Days.forEach(day => {
-          const dayDate = new Date(day);
-          // Find all scores for this day
-          const dayScores = scoreHistory?.filter(record => {
-            const recordDate = new Date(record.created_at);
-            return recordDate.toDateString() === dayDate.toDateString();
-          });
-
-          // If we have scores for this day, use the latest one
-          if (dayScores && dayScores.length > 0) {
-            const latestScore = dayScores.reduce((latest, current) => {
-              return new Date(current.created_at) > new Date(latest.created_at) ? current : latest;
-            });
-            trend.push({
-              date: day,
-              score: latestScore.score
-            });
-          } else {
-            // If no scores for this day, find the most recent score before this day
-            const previousScores = scoreHistory?.filter(record => 
-              new Date(record.created_at) < dayDate
-            );
-            
-            if (previousScores && previousScores.length > 0) {
-              const latestPreviousScore = previousScores.reduce((latest, current) => {
-                return new Date(current.created_at) > new Date(latest.created_at) ? current : latest;
-              });
-              trend.push({
-                date: day,
-                score: latestPreviousScore.score
-              });
-            } else {
-              // If no previous scores either, use 0
-              trend.push({
-                date: day,
-                score: 0
-              });
-            }
-          }
-        });
-
-        console.log("Score History:", scoreHistory);
-        console.log("Trend Data:", trend);
-        setScoreTrend(trend);
+        setScoreHistory(scoreHistory || []);
 
         // Fetch sessions for other calculations
         const { data: sessionsData, error: sessionsError } = await supabase
           .from("sessions")
           .select("*")
           .eq("user_id", userSession.user.id)
+          .order("practiced_on", { ascending: false })
           .order("created_at", { ascending: false });
 
         if (sessionsError) throw sessionsError;
         setSessions(sessionsData || []);
+
+        const { data: grandTestsData, error: grandTestsError } = await supabase
+          .from("grand_tests")
+          .select(GRAND_TEST_SELECT)
+          .eq("user_id", userSession.user.id);
+
+        if (grandTestsError) throw grandTestsError;
+        setGrandTests(grandTestsData || []);
       } catch (err) {
         setError(err instanceof Error ? err.message : "An error occurred");
       } finally {
@@ -156,93 +147,117 @@ const Dashboard = () => {
     fetchData();
   }, []);
 
-  // Group sessions by subject and type
-  const dataBySubject: Record<string, { practice: any[], mock: any[] }> = {};
-  
-  sessions.forEach(session => {
-    if (!dataBySubject[session.subject]) {
-      dataBySubject[session.subject] = { practice: [], mock: [] };
-    }
-    if (session.type === 'practice') {
-      dataBySubject[session.subject].practice.push(session);
-    } else {
-      dataBySubject[session.subject].mock.push(session);
-    }
-  });
+  const trendRange = useMemo(
+    () => getTrendRange(trendWindow, scoreHistory, customRange),
+    [trendWindow, scoreHistory, customRange]
+  );
 
-  const calculateSessionScore = (sessions: any[]): number => {
-    if (sessions.length === 0) return 0;
+  const scoreTrend: ScoreTrendPoint[] = useMemo(() => {
+    const current = buildDailySeries(scoreHistory, trendRange);
+    return comparePrevious
+      ? withPreviousPeriod(current, buildDailySeries(scoreHistory, getPreviousRange(trendRange)))
+      : current;
+  }, [scoreHistory, trendRange, comparePrevious]);
 
-    let total = 0;
-    sessions.forEach(session => {
-      const accuracy = session.correct_questions / session.total_questions;
-      const difficultyMult = getMultiplier("difficulty", session.difficulty);
-      const confidenceMult = getMultiplier("confidence", session.confidence);
-      const guessFactor = 1 - (session.guess_percent / 100) * 0.3;
-      const recentness = getRecentnessFactor(session.created_at);
+  const targets = useMemo(() => getScoreTargets(profile), [profile]);
 
-      const score = accuracy * difficultyMult * confidenceMult * guessFactor * recentness;
-      total += score;
+  // Toasts targets crossed by the latest recorded change, once per history entry
+  useEffect(() => {
+    if (!profile || scoreHistory.length < 2) return;
+    const latest = scoreHistory[scoreHistory.length - 1];
+    const seenKey = `target-events-seen:${profile.id}`;
+    if (localStorage.getItem(seenKey) === latest.id) return;
+    localStorage.setItem(seenKey, latest.id);
+
+    getTargetEvents(
+      historyToTargetScores(scoreHistory[scoreHistory.length - 2]),
+      historyToTargetScores(latest),
+      targets
+    ).forEach(event => {
+      if (event.kind === "reached") {
+        toast.success(describeTargetEvent(event));
+      } else {
+        toast.warning(describeTargetEvent(event));
+      }
     });
+  }, [profile, scoreHistory, targets]);
 
-    return total / sessions.length;
-  };
+  const forecast = useMemo(
+    () => (profile?.exam_date ? forecastScore(scoreHistory, profile.exam_date) : null),
+    [scoreHistory, profile]
+  );
 
-  const generateLast7Days = () => {
-    const days = [];
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      days.push(date.toISOString().split('T')[0]);
-    }
-    return days;
-  };
+  const targetOutlook = useMemo(
+    () => (forecast && targets.overall !== null ? getTargetOutlook(forecast, targets.overall) : null),
+    [forecast, targets]
+  );
 
-  // Calculate subject scores and trend
-  useEffect(() => {
-    if (sessions.length > 0) {
-      // Calculate individual subject scores
-      const scores: SubjectScore[] = [];
-      for (const subject in dataBySubject) {
-        const subjectData = dataBySubject[subject];
-        const practiceScore = calculateSessionScore(subjectData.practice);
-        const mockScore = calculateSessionScore(subjectData.mock);
-        const subjectScore = (practiceScore * 0.4 + mockScore * 0.6) * 100;
-
-        scores.push({
-          subject,
-          score: subjectScore,
-          count: subjectData.practice.length + subjectData.mock.length,
-          weight: subjectWeights[subject as keyof typeof subjectWeights] || 1
-        });
-      }
+  // A custom range can end in the past, where a forecast from today doesn't join up
+  const chartData = useMemo(
+    () => (forecast && trendWindow !== "custom" ? withForecast(scoreTrend, forecast) : scoreTrend),
+    [scoreTrend, forecast, trendWindow]
+  );
 
-      scores.sort((a, b) => b.score - a.score);
-      setSubjectScores(scores);
-    }
-  }, [sessions]);
+  // Score every subject with the shared engine so the cards match the stored prediction score
+  const examProfile = useMemo(() => getExamProfile(profile?.target_exam), [profile]);
+  const scoring = useMemo(
+    () => scoreSessions(sessions, { examProfile, grandTests }),
+    [sessions, grandTests, examProfile]
+  );
+
+  const subjectScores: SubjectScore[] = useMemo(() => scoring.subjects
+    .filter(subject => subject.practiceCount + subject.mockCount > 0)
+    .map(subject => ({
+      subject: subject.subject,
+      score: subject.score,
+      count: subject.practiceCount + subject.mockCount,
+      interval: subject.interval,
+      topics: subject.topics
+    }))
+    .sort((a, b) => b.score - a.score), [scoring]);
+
+  // Explains the most recent recorded score change
+  const latestChange = useMemo(() => {
+    if (scoreHistory.length < 2) return null;
+    const sessionDates = new Map(sessions.map(session => [session.id, session.created_at]));
+    grandTests.forEach(grandTest => {
+      (grandTest.grand_test_subjects || []).forEach(row => sessionDates.set(`gt-${row.id}`, grandTest.created_at));
+    });
+    const latest = scoreHistory[scoreHistory.length - 1];
+    return {
+      latest,
+      explanation: explainHistoryChange(scoreHistory[scoreHistory.length - 2], latest, scoring, sessionDates, examProfile)
+    };
+  }, [scoreHistory, sessions, grandTests, scoring, examProfile]);
+
+  const projection = useMemo(
+    () => {
+      // The stored accuracy matches the leaderboard; the engine supplies the range
+      const accuracy = profile?.expected_accuracy ?? scoring.expectedAccuracy;
+      return projectScore(accuracy, examProfile, centerInterval(accuracy, {
+        overall: scoring.expectedAccuracy,
+        interval: scoring.expectedAccuracyInterval
+      }));
+    },
+    [profile, examProfile, scoring]
+  );
+
+  const recommendations = useMemo(
+    () => recommendSubjects([...sessions, ...grandTestsToSessions(grandTests)], scoring, { examProfile }),
+    [sessions, grandTests, scoring, examProfile]
+  );
+
+  const revisionQueue = useMemo(
+    () => getRevisionQueue([...sessions, ...grandTestsToSessions(grandTests)]),
+    [sessions, grandTests]
+  );
 
-  const getMotivationalMessage = () => {
+  const getHeadline = () => {
     if (subjectScores.length === 0) return "Start tracking your progress by adding sessions!";
-  
-    const bestSubject = subjectScores[0];
-    const worstSubject = subjectScores[subjectScores.length - 1];
-  
-    if (scoreTrend.length >= 3) {
-      const latest = scoreTrend[scoreTrend.length - 1].score;
-      const previous = scoreTrend[scoreTrend.length - 3].score;
-  
-      if (latest > previous) {
-        return `Great progress! Your scores are improving. Keep focusing on ${worstSubject.subject} to get even better.`;
-      }
-    }
-  
-    if (bestSubject.score > 70) {
-      return `You're doing great in ${bestSubject.subject}, but need to focus more on ${worstSubject.subject}.`;
-    }
-  
-    return `Keep practicing! Focus on ${worstSubject.subject} to improve your overall score.`;
+    const next = recommendations[0];
+    return `Study ${next.subject} next: about ${formatGain(next.gainPerHour)} points per hour.`;
   };
+
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
@@ -261,7 +276,7 @@ const Dashboard = () => {
           <Card className="md:col-span-2">
             <CardHeader>
               <CardTitle>Your Preparation Score</CardTitle>
-              <CardDescription>{getMotivationalMessage()}</CardDescription>
+              <CardDescription>{getHeadline()}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="flex items-center justify-between">
@@ -291,6 +306,20 @@ const Dashboard = () => {
                   </ResponsiveContainer>
                 </div>
               </div>
+              {targets.overall !== null && (
+                <div className="mt-4 space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">Goal: {targets.overall}</span>
+                    <span className={totalScore >= targets.overall ? "text-green-600" : "text-muted-foreground"}>
+                      {totalScore >= targets.overall
+                        ? "Target reached"
+                        : `${(targets.overall - totalScore).toFixed(2)} to go`}
+                    </span>
+                  </div>
+                  <Progress value={targets.overall > 0 ? Math.min(100, totalScore / targets.overall * 100) : 100} />
+                </div>
+              )}
+              <ProjectionSummary projection={projection} />
             </CardContent>
           </Card>
 
@@ -312,6 +341,20 @@ const Dashboard = () => {
               >
                 View All Sessions
               </Button>
+              <Button 
+                className="w-full" 
+                variant="outline"
+                onClick={() => navigate("/what-if")}
+              >
+                What-if Simulator
+              </Button>
+              <Button 
+                className="w-full" 
+                variant="outline"
+                onClick={() => navigate("/calibration")}
+              >
+                Confidence Calibration
+              </Button>
               <Button 
                 className="w-full" 
                 variant="outline" 
@@ -323,6 +366,83 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Study Next</CardTitle>
+              <CardDescription>
+                Subjects ranked by how much an hour of study is expected to add to your prediction score
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {recommendations.slice(0, STUDY_NEXT_COUNT).map((recommendation, index) => (
+                  <li key={recommendation.subject} className="flex justify-between items-start gap-4">
+                    <div>
+                      <button
+                        className="font-medium hover:underline"
+                        onClick={() => navigate(`/subjects/${encodeURIComponent(recommendation.subject)}`)}
+                      >
+                        {index + 1}. {recommendation.subject}
+                      </button>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {recommendation.sessionType === "mock" ? "take a mock test" : "practice questions"}
+                      </span>
+                      <p className="text-sm text-gray-500">{recommendation.reasons.join(" · ")}</p>
+                    </div>
+                    <span
+                      className={`whitespace-nowrap text-sm font-medium ${
+                        recommendation.gainPerHour >= 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {formatGain(recommendation.gainPerHour)} pts/hr
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Revision Due</CardTitle>
+              <CardDescription>
+                Subjects and topics whose spaced-revision interval has run out
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {revisionQueue.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing is due today. Keep logging sessions to build your schedule.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {revisionQueue.slice(0, REVISION_QUEUE_COUNT).map((item) => (
+                    <li key={`${item.subject}|${item.topic ?? ""}`} className="flex justify-between items-center gap-4">
+                      <div>
+                        <span className="font-medium">{item.subject}</span>
+                        {item.topic && <span className="text-sm text-gray-500"> · {item.topic}</span>}
+                        <p className="text-sm text-gray-500">
+                          {item.status === "due" ? "Due today" : `Overdue by ${item.daysOverdue} day${item.daysOverdue !== 1 ? "s" : ""}`}
+                          {" · "}last {Math.round(item.lastAccuracy * 100)}% on {parseISO(item.lastPracticed).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/add-session?${new URLSearchParams({
+                          subject: item.subject,
+                          ...(item.topic ? { topic: item.topic } : {})
+                        })}`)}
+                      >
+                        Revise
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
         <Tabs defaultValue="overview" className="mb-6">
           <TabsList className="mb-4">
             <TabsTrigger value="overview">Overview</TabsTrigger>
@@ -333,50 +453,177 @@ const Dashboard = () => {
           <TabsContent value="overview">
             <Card>
               <CardHeader>
-                <CardTitle>Weekly Progress</CardTitle>
-                <CardDescription>Your prediction score changes over the last 7 days</CardDescription>
+                <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+                  <div>
+                    <CardTitle>Score Progress</CardTitle>
+                    <CardDescription>
+                      Your prediction score from {formatTrendRange(trendRange)}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select value={trendWindow} onValueChange={(value) => setTrendWindow(value as TrendWindow)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {trendWindows.map((w) => (
+                          <SelectItem key={w.id} value={w.id}>
+                            {w.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {trendWindow === "custom" && (
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button variant="outline" className="font-normal">
+                            <CalendarIcon className="mr-2 h-4 w-4" />
+                            {customRange?.from ? formatTrendRange(trendRange) : "Pick dates"}
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="end">
+                          <Calendar
+                            mode="range"
+                            selected={customRange}
+                            onSelect={setCustomRange}
+                            numberOfMonths={2}
+                            disabled={(date) => date > new Date()}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                    )}
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="compare-previous"
+                        checked={comparePrevious}
+                        onCheckedChange={setComparePrevious}
+                      />
+                      <Label htmlFor="compare-previous">Compare with previous period</Label>
+                    </div>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
                 {isLoading ? (
                   <p>Loading score history...</p>
-                ) : scoreTrend.length === 0 ? (
+                ) : scoreHistory.length === 0 ? (
                   <p>No score history available yet. Add some sessions to see your progress!</p>
                 ) : (
                   <div className="h-64">
                     <ResponsiveContainer width="100%" height="100%">
-                      <LineChart 
-                        data={scoreTrend}
+                      <ComposedChart 
+                        data={chartData}
                         margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
                       >
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis 
                           dataKey="date" 
-                          tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                          tickFormatter={(date) => parseISO(date).toLocaleDateString()}
                         />
                         <YAxis 
                           domain={[0, 100]} 
                           tickFormatter={(value) => `${value.toFixed(1)}`}
                         />
                         <Tooltip 
-                          formatter={(value: number) => [`${value.toFixed(2)}`, "Score"]}
-                          labelFormatter={(label) => `Date: ${new Date(label).toLocaleDateString()}`}
+                          formatter={(value: number | [number, number] | null, name: string) => Array.isArray(value)
+                            ? [`${value[0].toFixed(2)} – ${value[1].toFixed(2)}`, name]
+                            : [value === null ? "-" : `${value.toFixed(2)}`, name]}
+                          labelFormatter={(label) => `Date: ${parseISO(label).toLocaleDateString()}`}
                         />
                         <Legend />
+                        <Area
+                          type="monotone"
+                          dataKey="range"
+                          stroke="none"
+                          fill="#8884d8"
+                          fillOpacity={0.15}
+                          name="95% range"
+                        />
                         <Line 
                           type="monotone" 
                           dataKey="score" 
                           stroke="#8884d8" 
                           name="Prediction Score" 
-                          dot={{ r: 4 }}
+                          dot={scoreTrend.length <= 31 ? { r: 4 } : false}
                           activeDot={{ r: 6 }}
                           strokeWidth={2}
                         />
-                      </LineChart>
+                        {chartData !== scoreTrend && (
+                          <>
+                            <Area
+                              type="monotone"
+                              dataKey="forecastRange"
+                              stroke="none"
+                              fill="#f59e0b"
+                              fillOpacity={0.15}
+                              name="Forecast range"
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="forecast"
+                              stroke="#f59e0b"
+                              strokeDasharray="6 4"
+                              name="Forecast"
+                              dot={false}
+                              strokeWidth={2}
+                            />
+                          </>
+                        )}
+                        {comparePrevious && (
+                          <Line
+                            type="monotone"
+                            dataKey="previousScore"
+                            stroke="#94a3b8"
+                            strokeDasharray="5 5"
+                            name="Previous period"
+                            dot={false}
+                            strokeWidth={2}
+                          />
+                        )}
+                      </ComposedChart>
                     </ResponsiveContainer>
                   </div>
                 )}
+                {forecast ? (
+                  <div className="mt-4 space-y-2 text-sm">
+                    <p>
+                      At your current pace ({forecast.weeklyPace >= 0 ? "+" : ""}{forecast.weeklyPace.toFixed(2)} points/week)
+                      you are forecast to reach <span className="font-medium">{forecast.expected.toFixed(1)}</span> by
+                      {" "}{format(parseISO(forecast.examDate), "d MMM yyyy")}
+                      <span className="text-muted-foreground"> (95% range {forecast.low.toFixed(1)}–{forecast.high.toFixed(1)})</span>.
+                    </p>
+                    {targetOutlook && !targetOutlook.reachable && (
+                      <p className="rounded-md border border-red-200 bg-red-50 p-3 text-red-700">
+                        Your target of {targetOutlook.target} is out of reach at this rate. You need about
+                        {" "}+{targetOutlook.requiredWeeklyPace.toFixed(2)} points/week from now to get there.
+                      </p>
+                    )}
+                  </div>
+                ) : !isLoading && scoreHistory.length > 0 && (
+                  <p className="mt-4 text-sm text-muted-foreground">
+                    {profile?.exam_date
+                      ? "A few more days of score history are needed for a forecast to exam day."
+                      : "Set your exam date in the Study Planner to see a forecast to exam day."}
+                  </p>
+                )}
               </CardContent>
             </Card>
+
+            {latestChange && (
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle>Explain My Score</CardTitle>
+                  <CardDescription>
+                    What moved your score on {new Date(latestChange.latest.created_at).toLocaleString()}
+                    {latestChange.latest.cause && ` (${causeLabels[latestChange.latest.cause]})`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ScoreExplanationPanel explanation={latestChange.explanation} />
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
           
           <TabsContent value="subjects">
@@ -387,7 +634,10 @@ const Dashboard = () => {
                   subject={subject.subject}
                   score={subject.score}
                   count={subject.count}
-                  weight={subject.weight}
+                  interval={subject.interval}
+                  topics={subject.topics}
+                  target={targets.subjects[subject.subject as SubjectType]}
+                  examProfile={examProfile}
                 />
               ))}
               {subjectScores.length === 0 && (
@@ -420,6 +670,19 @@ const Dashboard = () => {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle>Subject Trends</CardTitle>
+                <CardDescription>Toggle subjects to compare how their scores have moved</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SubjectTrendChart
+                  history={scoreHistory}
+                  defaultSubjects={subjectScores.slice(0, 3).map(subject => subject.subject as SubjectType)}
+                />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
 
@@ -452,7 +715,7 @@ const Dashboard = () => {
                           {session.correct_questions}/{session.total_questions}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          {new Date(session.created_at).toLocaleDateString()}
+                          {parseISO(session.practiced_on).toLocaleDateString()}
                         </td>
                       </tr>
                     ))}
@@ -0,0 +1,202 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { GrandTest } from "@/types/database";
+import { GRAND_TEST_SELECT, getGrandTestQuestionCount } from "@/lib/grandTests";
+import { deleteGrandTest } from "@/lib/grandTestMutations";
+import { formatRank } from "@/lib/projection";
+import { useExamProfile } from "@/hooks/use-exam-profile";
+
+const GrandTests = () => {
+  const navigate = useNavigate();
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const examProfile = useExamProfile(userSession?.user.id);
+
+  useEffect(() => {
+    const checkUser = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        navigate("/auth");
+        return;
+      }
+      setUserSession(data.session);
+      fetchGrandTests(data.session.user.id);
+    };
+
+    checkUser();
+
+    const { data: authListener } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        if (event === "SIGNED_OUT") {
+          navigate("/auth");
+        } else if (session) {
+          setUserSession(session);
+        }
+      }
+    );
+
+    return () => {
+      authListener.subscription.unsubscribe();
+    };
+  }, [navigate]);
+
+  const fetchGrandTests = async (userId: string) => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("grand_tests")
+        .select(GRAND_TEST_SELECT)
+        .eq("user_id", userId)
+        .order("taken_on", { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      setGrandTests((data || []) as GrandTest[]);
+    } catch (error: any) {
+      toast.error(`Error fetching grand tests: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  const handleDeleteGrandTest = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this grand test?")) {
+      return;
+    }
+
+    try {
+      await deleteGrandTest(id);
+
+      toast.success("Grand test deleted successfully");
+      setGrandTests(grandTests.filter(grandTest => grandTest.id !== id));
+    } catch (error: any) {
+      toast.error(`Error deleting grand test: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Grand Tests</h2>
+            <p className="text-sm text-muted-foreground">
+              Full-length tests feed the mock component of each subject's score
+            </p>
+          </div>
+          <Button onClick={() => navigate("/grand-tests/new")}>
+            Add Grand Test
+          </Button>
+        </div>
+
+        {loading ? (
+          <p>Loading grand tests...</p>
+        ) : grandTests.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <p className="text-gray-500">No grand tests recorded yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          grandTests.map((grandTest) => {
+            const breakdown = [...(grandTest.grand_test_subjects || [])]
+              .sort((a, b) => a.subject.localeCompare(b.subject));
+            const maxMarks = getGrandTestQuestionCount(grandTest) * examProfile.marking.correct;
+            return (
+              <Card key={grandTest.id}>
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle>{grandTest.name}</CardTitle>
+                      <CardDescription>
+                        {parseISO(grandTest.taken_on).toLocaleDateString()}
+                        {" · "}{Number(grandTest.marks)} / {maxMarks} marks
+                        {grandTest.rank !== null && ` · Rank ${formatRank(grandTest.rank)}`}
+                        {grandTest.percentile !== null && ` · ${grandTest.percentile} percentile`}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => handleDeleteGrandTest(grandTest.id)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Subject</TableHead>
+                          <TableHead>Questions</TableHead>
+                          <TableHead>Correct</TableHead>
+                          <TableHead>Incorrect</TableHead>
+                          <TableHead>Unattempted</TableHead>
+                          <TableHead>Accuracy</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {breakdown.map((row) => (
+                          <TableRow key={row.id}>
+                            <TableCell>{row.subject}</TableCell>
+                            <TableCell>{row.total_questions}</TableCell>
+                            <TableCell>{row.correct_questions}</TableCell>
+                            <TableCell>{row.incorrect_questions}</TableCell>
+                            <TableCell>{row.unattempted_questions}</TableCell>
+                            <TableCell>
+                              {Math.round((row.correct_questions / row.total_questions) * 100)}%
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default GrandTests;
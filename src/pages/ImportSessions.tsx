@@ -0,0 +1,327 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import type { Session as SessionRecord } from "@/types/database";
+import {
+  ColumnMapping,
+  ImportField,
+  ParsedFile,
+  importFields,
+  importPresets,
+  parseImportFile,
+  resolveMapping,
+  validateRows,
+} from "@/lib/sessionImport";
+import { createSessions } from "@/lib/sessionMutations";
+
+const NOT_MAPPED = "__none__";
+
+const ImportSessions = () => {
+  const navigate = useNavigate();
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [existingSessions, setExistingSessions] = useState<SessionRecord[]>([]);
+  const [presetId, setPresetId] = useState(importPresets[0].id);
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const preset = importPresets.find(p => p.id === presetId) || importPresets[0];
+
+  useEffect(() => {
+    const checkUser = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        navigate("/auth");
+        return;
+      }
+      setUserSession(data.session);
+      fetchExistingSessions(data.session.user.id);
+    };
+
+    checkUser();
+
+    const { data: authListener } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        if (event === "SIGNED_OUT") {
+          navigate("/auth");
+        } else if (session) {
+          setUserSession(session);
+        }
+      }
+    );
+
+    return () => {
+      authListener.subscription.unsubscribe();
+    };
+  }, [navigate]);
+
+  const fetchExistingSessions = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("sessions")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (error) {
+      toast.error(`Error fetching sessions: ${error.message}`);
+      return;
+    }
+    setExistingSessions((data || []) as SessionRecord[]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const result = parseImportFile(file.name, await file.text());
+      if (result.rows.length === 0) {
+        toast.error("The file has no rows to import");
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(resolveMapping(result.columns, preset));
+    } catch (error: any) {
+      toast.error(`Could not read ${file.name}: ${error.message}`);
+    }
+  };
+
+  const handlePresetChange = (value: string) => {
+    setPresetId(value);
+    const nextPreset = importPresets.find(p => p.id === value);
+    if (parsed && nextPreset) {
+      setMapping(resolveMapping(parsed.columns, nextPreset));
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping({ ...mapping, [field]: column === NOT_MAPPED ? undefined : column });
+  };
+
+  const rows = useMemo(() => {
+    if (!parsed || !userSession) return [];
+    return validateRows(parsed.rows, mapping, {
+      userId: userSession.user.id,
+      defaultType: preset.defaultType,
+      existing: existingSessions
+    });
+  }, [parsed, mapping, userSession, preset, existingSessions]);
+
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+  const toImport = rows.filter(row => row.session && !(skipDuplicates && row.duplicate));
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      // One insert statement, so the score is recomputed once for the whole file
+      await createSessions(toImport.map(row => row.session));
+      toast.success(`Imported ${toImport.length} session${toImport.length !== 1 ? "s" : ""}`);
+      navigate("/sessions");
+    } catch (error: any) {
+      toast.error(`Error importing sessions: ${error.message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Sessions</CardTitle>
+            <CardDescription>
+              Upload a CSV or JSON export from another platform and review it before importing
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="import-preset">Export Format</Label>
+              <Select value={presetId} onValueChange={handlePresetChange}>
+                <SelectTrigger id="import-preset">
+                  <SelectValue placeholder="Select format" />
+                </SelectTrigger>
+                <SelectContent>
+                  {importPresets.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {parsed && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Column Mapping</CardTitle>
+              <CardDescription>
+                Pick the column in {fileName} that holds each session field
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {importFields.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] || NOT_MAPPED}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {parsed.columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {parsed && (
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle>Preview</CardTitle>
+                  <CardDescription>
+                    {rows.length} rows · {errorCount} with errors · {duplicateCount} duplicates
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="skip-duplicates"
+                    checked={skipDuplicates}
+                    onCheckedChange={setSkipDuplicates}
+                  />
+                  <Label htmlFor="skip-duplicates">Skip duplicates</Label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto max-h-[28rem]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <Badge variant="destructive">Error</Badge>
+                          ) : row.duplicate ? (
+                            <Badge variant="secondary">Duplicate</Badge>
+                          ) : (
+                            <Badge>Ready</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.session?.practiced_on}</TableCell>
+                        <TableCell>{row.session?.subject}</TableCell>
+                        <TableCell className="capitalize">{row.session?.type}</TableCell>
+                        <TableCell>
+                          {row.session && `${row.session.correct_questions}/${row.session.total_questions}`}
+                        </TableCell>
+                        <TableCell className="text-sm text-red-600">
+                          {row.errors.join("; ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+            <CardFooter className="flex justify-between">
+              <Button variant="outline" onClick={() => navigate("/sessions")}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={importing || toImport.length === 0}
+              >
+                {importing ? "Importing..." : `Import ${toImport.length} Session${toImport.length !== 1 ? "s" : ""}`}
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportSessions;
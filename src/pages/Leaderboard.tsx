@@ -19,12 +19,16 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { getExamProfile } from "@/lib/examProfiles";
+import { ScoreProjection, formatRank, projectScore } from "@/lib/projection";
 
 type ProfileWithScore = {
   id: string;
   nickname: string | null;
   email: string;
   score: number;
+  /** Null until the profile has been rescored with an expected accuracy. */
+  projection: ScoreProjection | null;
 };
 
 const Leaderboard = () => {
@@ -70,19 +74,32 @@ const Leaderboard = () => {
       // Get all profiles with prediction_score
       const { data: profiles, error: profilesError } = await supabase
         .from("profiles")
-        .select("id, nickname, email, prediction_score")
+        .select("id, nickname, email, prediction_score, expected_accuracy, expected_accuracy_low, expected_accuracy_high, target_exam")
         .order("prediction_score", { ascending: false });
         
       if (profilesError) throw profilesError;
       
       if (profiles) {
         // Transform profiles into leaderboard format
-        const userScores: ProfileWithScore[] = profiles.map(profile => ({
-          id: profile.id,
-          nickname: profile.nickname,
-          email: profile.email,
-          score: profile.prediction_score !== null ? profile.prediction_score : 0
-        }));
+        const userScores: ProfileWithScore[] = profiles.map(profile => {
+          const score = profile.prediction_score !== null ? profile.prediction_score : 0;
+          const examProfile = getExamProfile(profile.target_exam);
+          return {
+            id: profile.id,
+            nickname: profile.nickname,
+            email: profile.email,
+            score,
+            projection: profile.expected_accuracy === null
+              ? null
+              : projectScore(
+                profile.expected_accuracy,
+                examProfile,
+                profile.expected_accuracy_low !== null && profile.expected_accuracy_high !== null
+                  ? { low: profile.expected_accuracy_low, high: profile.expected_accuracy_high }
+                  : undefined
+              )
+          };
+        });
         
         // Sort users with null scores to the end
         userScores.sort((a, b) => {
@@ -147,6 +164,8 @@ const Leaderboard = () => {
                   <TableRow>
                     <TableHead>Rank</TableHead>
                     <TableHead>User</TableHead>
+                    <TableHead>Projected Marks</TableHead>
+                    <TableHead>Rank Band</TableHead>
                     <TableHead className="text-right">Score</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -166,6 +185,27 @@ const Leaderboard = () => {
                         {user.nickname || user.email.split('@')[0]}
                         {user.id === userSession?.user.id && " (You)"}
                       </TableCell>
+                      {user.projection ? (
+                        <>
+                          <TableCell>
+                            {user.projection.marks.expected}/{user.projection.maxMarks}
+                            <div className="text-xs text-gray-500">
+                              {user.projection.examName} · {user.projection.marks.low}–{user.projection.marks.high}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            ~{formatRank(user.projection.rank.expected)}
+                            <div className="text-xs text-gray-500">
+                              {formatRank(user.projection.rank.low)}–{formatRank(user.projection.rank.high)}
+                            </div>
+                          </TableCell>
+                        </>
+                      ) : (
+                        <>
+                          <TableCell className="text-gray-500">-</TableCell>
+                          <TableCell className="text-gray-500">-</TableCell>
+                        </>
+                      )}
                       <TableCell className="text-right font-bold">
                         {user.score.toFixed(2)}
                       </TableCell>
@@ -14,13 +14,25 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Session } from "@supabase/supabase-js";
 import DashboardHeader from "@/components/DashboardHeader";
+import type { ExamId, SubjectType } from "@/types/database";
+import { DEFAULT_EXAM_ID, examProfiles, getExamSubjects } from "@/lib/examProfiles";
 
 type Profile = {
   id: string;
   email: string;
   nickname: string | null;
+  target_exam: ExamId;
+  target_score: number | null;
+  subject_targets: Partial<Record<SubjectType, number>> | null;
   created_at: string;
 };
 
@@ -29,6 +41,9 @@ const Profile = () => {
   const [userSession, setUserSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [nickname, setNickname] = useState("");
+  const [targetExam, setTargetExam] = useState<ExamId>(DEFAULT_EXAM_ID);
+  const [targetScore, setTargetScore] = useState("");
+  const [subjectTargets, setSubjectTargets] = useState<Partial<Record<SubjectType, string>>>({});
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
 
@@ -77,6 +92,11 @@ const Profile = () => {
       if (data) {
         setProfile(data as Profile);
         setNickname(data.nickname || "");
+        setTargetExam(data.target_exam || DEFAULT_EXAM_ID);
+        setTargetScore(data.target_score === null ? "" : String(data.target_score));
+        setSubjectTargets(Object.fromEntries(
+          Object.entries(data.subject_targets || {}).map(([subject, target]) => [subject, String(target)])
+        ));
       }
     } catch (error: any) {
       toast.error(`Error fetching profile: ${error.message}`);
@@ -87,13 +107,30 @@ const Profile = () => {
 
   const handleUpdateProfile = async () => {
     if (!userSession) return;
+
+    const target_score = targetScore.trim() === "" ? null : Number(targetScore);
+    if (target_score !== null && !(target_score >= 0 && target_score <= 100)) {
+      toast.error("Target score must be between 0 and 100");
+      return;
+    }
+
+    // Only subjects in the chosen exam keep their targets
+    const subjectEntries = getExamSubjects(examProfiles[targetExam])
+      .filter(subject => (subjectTargets[subject] ?? "").trim() !== "")
+      .map(subject => [subject, Number(subjectTargets[subject])] as const);
+    const invalidSubject = subjectEntries.find(([, target]) => !(target >= 0 && target <= 100));
+    if (invalidSubject) {
+      toast.error(`${invalidSubject[0]} target must be between 0 and 100`);
+      return;
+    }
+    const subject_targets = subjectEntries.length > 0 ? Object.fromEntries(subjectEntries) : null;
     
     try {
       setUpdating(true);
       
       const { error } = await supabase
         .from("profiles")
-        .update({ nickname })
+        .update({ nickname, target_exam: targetExam, target_score, subject_targets })
         .eq("id", userSession.user.id);
         
       if (error) {
@@ -105,7 +142,10 @@ const Profile = () => {
       if (profile) {
         setProfile({
           ...profile,
-          nickname
+          nickname,
+          target_exam: targetExam,
+          target_score,
+          subject_targets
         });
       }
     } catch (error: any) {
@@ -162,6 +202,63 @@ const Profile = () => {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="target-exam">Target Exam</Label>
+                  <Select
+                    value={targetExam}
+                    onValueChange={(value) => setTargetExam(value as ExamId)}
+                  >
+                    <SelectTrigger id="target-exam">
+                      <SelectValue placeholder="Select exam" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(examProfiles).map((exam) => (
+                        <SelectItem key={exam.id} value={exam.id}>
+                          {exam.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="target-score">Target Prediction Score</Label>
+                  <Input
+                    id="target-score"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={targetScore}
+                    onChange={(e) => setTargetScore(e.target.value)}
+                    placeholder="e.g. 70 (optional)"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Subject Targets</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Leave a subject blank to skip it. Subject cards on the Dashboard show the gap to each target.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {getExamSubjects(examProfiles[targetExam]).map((subject) => (
+                      <div key={subject} className="flex items-center justify-between gap-2">
+                        <Label htmlFor={`target-${subject}`} className="text-sm font-normal">
+                          {subject}
+                        </Label>
+                        <Input
+                          id={`target-${subject}`}
+                          type="number"
+                          min={0}
+                          max={100}
+                          className="w-20"
+                          value={subjectTargets[subject] ?? ""}
+                          onChange={(e) => setSubjectTargets({ ...subjectTargets, [subject]: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="joined">Joined</Label>
                   <Input
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import ProjectionSummary from "@/components/ProjectionSummary";
+import type { GrandTest, Profile, ScoreHistory, Session as SessionRecord } from "@/types/database";
+import { getExamProfile } from "@/lib/examProfiles";
+import { getNetMarks, scoreSessions } from "@/lib/scoring";
+import { GRAND_TEST_SELECT } from "@/lib/grandTests";
+import { centerInterval, projectScore } from "@/lib/projection";
+
+const RECENT_SESSION_COUNT = 15;
+
+// Print-friendly summary of a user's progress; the browser's print dialog saves it as PDF
+const Report = () => {
+  const navigate = useNavigate();
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [history, setHistory] = useState<ScoreHistory[]>([]);
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        if (!data.session) {
+          navigate("/auth");
+          return;
+        }
+        setUserSession(data.session);
+        const userId = data.session.user.id;
+
+        const [profileResult, sessionsResult, historyResult, grandTestsResult] = await Promise.all([
+          supabase.from("profiles").select("*").eq("id", userId).single(),
+          supabase
+            .from("sessions")
+            .select("*")
+            .eq("user_id", userId)
+            .order("practiced_on", { ascending: false }),
+          supabase
+            .from("score_history")
+            .select("*")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: true }),
+          supabase.from("grand_tests").select(GRAND_TEST_SELECT).eq("user_id", userId)
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (sessionsResult.error) throw sessionsResult.error;
+        if (historyResult.error) throw historyResult.error;
+        if (grandTestsResult.error) throw grandTestsResult.error;
+
+        setProfile(profileResult.data);
+        setSessions(sessionsResult.data || []);
+        setHistory(historyResult.data || []);
+        setGrandTests(grandTestsResult.data || []);
+      } catch (error: any) {
+        toast.error(`Error loading report: ${error.message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [navigate]);
+
+  const examProfile = useMemo(() => getExamProfile(profile?.target_exam), [profile]);
+  const scoring = useMemo(
+    () => scoreSessions(sessions, { examProfile, grandTests }),
+    [sessions, grandTests, examProfile]
+  );
+  const score = profile?.prediction_score ?? scoring.overall;
+  const interval = centerInterval(score, scoring);
+  const accuracy = profile?.expected_accuracy ?? scoring.expectedAccuracy;
+  const projection = projectScore(accuracy, examProfile, centerInterval(accuracy, {
+    overall: scoring.expectedAccuracy,
+    interval: scoring.expectedAccuracyInterval
+  }));
+  const trend = history.map(record => ({ date: record.created_at, score: record.score }));
+  const subjectRows = scoring.subjects.filter(subject => subject.practiceCount + subject.mockCount > 0);
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <div className="print:hidden">
+        <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+      </div>
+
+      <main className="container mx-auto py-8 px-4 space-y-6 print:py-0">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold">Progress Report</h2>
+            <p className="text-sm text-muted-foreground">
+              {profile?.nickname || profile?.email} · {examProfile.name} · {format(new Date(), "PPP")}
+            </p>
+          </div>
+          <div className="flex space-x-2 print:hidden">
+            <Button variant="outline" onClick={() => navigate("/sessions")}>
+              Back
+            </Button>
+            <Button onClick={() => window.print()}>Print / Save as PDF</Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p>Loading report...</p>
+        ) : (
+          <>
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Prediction Score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-4xl font-bold text-primary">
+                  {score}
+                  <span className="text-base font-normal text-muted-foreground"> / 100</span>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Likely range {Math.max(0, interval.low).toFixed(1)}–{Math.min(100, interval.high).toFixed(1)} · {sessions.length} sessions logged
+                </p>
+                <ProjectionSummary projection={projection} />
+              </CardContent>
+            </Card>
+
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Score Trend</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {trend.length === 0 ? (
+                  <p>No score history yet.</p>
+                ) : (
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={trend} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="date"
+                          tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                        />
+                        <YAxis domain={[0, 100]} />
+                        <Line
+                          type="monotone"
+                          dataKey="score"
+                          stroke="#8884d8"
+                          dot={false}
+                          strokeWidth={2}
+                          isAnimationActive={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Subject Scores</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Weight</TableHead>
+                      <TableHead>Practice</TableHead>
+                      <TableHead>Mock</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Likely Range</TableHead>
+                      <TableHead>Sessions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {subjectRows.map((subject) => (
+                      <TableRow key={subject.subject}>
+                        <TableCell>{subject.subject}</TableCell>
+                        <TableCell>{subject.weight}</TableCell>
+                        <TableCell>{subject.practiceScore.toFixed(1)}</TableCell>
+                        <TableCell>{subject.mockScore.toFixed(1)}</TableCell>
+                        <TableCell className="font-medium">{subject.score.toFixed(1)}</TableCell>
+                        <TableCell>
+                          {Math.round(subject.interval.low)}–{Math.round(subject.interval.high)}
+                        </TableCell>
+                        <TableCell>{subject.practiceCount + subject.mockCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Recent Sessions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Accuracy</TableHead>
+                      <TableHead>Net Marks</TableHead>
+                      <TableHead>Difficulty</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sessions.slice(0, RECENT_SESSION_COUNT).map((session) => {
+                      const netMarks = getNetMarks(session, examProfile.marking);
+                      return (
+                        <TableRow key={session.id}>
+                          <TableCell>{parseISO(session.practiced_on).toLocaleDateString()}</TableCell>
+                          <TableCell>{session.subject}</TableCell>
+                          <TableCell className="capitalize">{session.type}</TableCell>
+                          <TableCell>
+                            {Math.round((session.correct_questions / session.total_questions) * 100)}%
+                          </TableCell>
+                          <TableCell>
+                            {Number(netMarks.net.toFixed(2))} / {netMarks.max}
+                          </TableCell>
+                          <TableCell className="capitalize">{session.difficulty}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Report;
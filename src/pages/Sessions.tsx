@@ -1,6 +1,7 @@
 
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { 
@@ -28,36 +29,39 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-
-type SessionType = {
-  id: string;
-  subject: string;
-  correct_questions: number;
-  total_questions: number;
-  difficulty: "easy" | "medium" | "hard";
-  confidence: "low" | "medium" | "high";
-  guess_percent: number;
-  time_taken: number;
-  type: "practice" | "mock";
-  created_at: string;
-};
+import type { Session as SessionRecord } from "@/types/database";
+import { getExamSubjects } from "@/lib/examProfiles";
+import { getNetMarks } from "@/lib/scoring";
+import { deleteSession } from "@/lib/sessionMutations";
+import {
+  downloadFile,
+  exportFileName,
+  scoreHistoryToCsv,
+  scoreHistoryToJson,
+  sessionsToCsv,
+  sessionsToJson,
+} from "@/lib/sessionExport";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useExamProfile } from "@/hooks/use-exam-profile";
 
 const Sessions = () => {
   const navigate = useNavigate();
-  const [sessions, setSessions] = useState<SessionType[]>([]);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [userSession, setUserSession] = useState<Session | null>(null);
   const [subjectFilter, setSubjectFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("date-desc");
 
-  const subjects = [
-    "Medicine", "Surgery", "OB-GYN", "Pediatrics",
-    "Pathology", "Pharmacology", "Biochemistry", "Anatomy",
-    "Physiology", "Microbiology", "Radiology", "Dermatology",
-    "Psychiatry", "ENT", "Ophthalmology", "Anesthesia",
-    "Forensic Medicine"
-  ];
+  const examProfile = useExamProfile(userSession?.user.id);
+  const subjects = getExamSubjects(examProfile);
 
   useEffect(() => {
     const checkUser = async () => {
@@ -99,7 +103,7 @@ const Sessions = () => {
       }
 
       if (data) {
-        setSessions(data as SessionType[]);
+        setSessions(data as SessionRecord[]);
       }
     } catch (error: any) {
       toast.error(`Error fetching sessions: ${error.message}`);
@@ -118,11 +122,12 @@ const Sessions = () => {
       }
       return true;
     }).sort((a, b) => {
+      const byDate = a.practiced_on.localeCompare(b.practiced_on) || a.created_at.localeCompare(b.created_at);
       switch (sortBy) {
         case "date-asc":
-          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+          return byDate;
         case "date-desc":
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+          return -byDate;
         case "score-asc":
           return (a.correct_questions / a.total_questions) - (b.correct_questions / b.total_questions);
         case "score-desc":
@@ -132,7 +137,7 @@ const Sessions = () => {
         case "subject-desc":
           return b.subject.localeCompare(a.subject);
         default:
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+          return -byDate;
       }
     });
   };
@@ -152,14 +157,7 @@ const Sessions = () => {
     }
     
     try {
-      const { error } = await supabase
-        .from("sessions")
-        .delete()
-        .eq("id", id);
-        
-      if (error) {
-        throw error;
-      }
+      await deleteSession(id);
       
       toast.success("Session deleted successfully");
       setSessions(sessions.filter(session => session.id !== id));
@@ -170,6 +168,38 @@ const Sessions = () => {
 
   const filteredSessions = getFilteredSessions();
 
+  const handleExportSessions = (fileType: "csv" | "json") => {
+    // Exports what the table shows, including the current filters and sort order
+    if (fileType === "csv") {
+      downloadFile(exportFileName("sessions", "csv"), sessionsToCsv(filteredSessions), "text/csv");
+    } else {
+      downloadFile(exportFileName("sessions", "json"), sessionsToJson(filteredSessions), "application/json");
+    }
+  };
+
+  const handleExportScoreHistory = async (fileType: "csv" | "json") => {
+    try {
+      const { data, error } = await supabase
+        .from("score_history")
+        .select("*")
+        .eq("user_id", userSession?.user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      if (fileType === "csv") {
+        downloadFile(exportFileName("score-history", "csv"), scoreHistoryToCsv(data || []), "text/csv");
+      } else {
+        downloadFile(exportFileName("score-history", "json"), scoreHistoryToJson(data || []), "application/json");
+      }
+    } catch (error: any) {
+      toast.error(`Error exporting score history: ${error.message}`);
+    }
+  };
+
+
   return (
     <div className="min-h-screen bg-gray-50">
       <DashboardHeader userSession={userSession} onLogout={handleLogout} />
@@ -184,9 +214,30 @@ const Sessions = () => {
                   View and manage your practice and mock test sessions
                 </CardDescription>
               </div>
-              <Button onClick={() => navigate("/add-session")}>
-                Add New Session
-              </Button>
+              <div className="flex space-x-2">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline">Export</Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Filtered sessions</DropdownMenuLabel>
+                    <DropdownMenuItem onClick={() => handleExportSessions("csv")}>CSV</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportSessions("json")}>JSON</DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Score history</DropdownMenuLabel>
+                    <DropdownMenuItem onClick={() => handleExportScoreHistory("csv")}>CSV</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportScoreHistory("json")}>JSON</DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => navigate("/report")}>Printable report</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button variant="outline" onClick={() => navigate("/sessions/import")}>
+                  Import
+                </Button>
+                <Button onClick={() => navigate("/add-session")}>
+                  Add New Session
+                </Button>
+              </div>
             </div>
           </CardHeader>
           
@@ -273,40 +324,62 @@ const Sessions = () => {
                       <TableHead>Date</TableHead>
                       <TableHead>Subject</TableHead>
                       <TableHead>Type</TableHead>
-                      <TableHead>Score</TableHead>
+                      <TableHead>Accuracy</TableHead>
+                      <TableHead>Net Marks</TableHead>
                       <TableHead>Difficulty</TableHead>
                       <TableHead>Time (mins)</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredSessions.map((session) => (
-                      <TableRow key={session.id}>
-                        <TableCell>
-                          {new Date(session.created_at).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell>{session.subject}</TableCell>
-                        <TableCell className="capitalize">{session.type}</TableCell>
-                        <TableCell>
-                          {Math.round((session.correct_questions / session.total_questions) * 100)}%
-                          <div className="text-xs text-gray-500">
-                            {session.correct_questions}/{session.total_questions}
-                          </div>
-                        </TableCell>
-                        <TableCell className="capitalize">{session.difficulty}</TableCell>
-                        <TableCell>{session.time_taken}</TableCell>
-                        <TableCell className="text-right">
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            className="text-red-600"
-                            onClick={() => handleDeleteSession(session.id)}
-                          >
-                            Delete
-                          </Button>
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                    {filteredSessions.map((session) => {
+                      const netMarks = getNetMarks(session, examProfile.marking);
+                      return (
+                        <TableRow key={session.id}>
+                          <TableCell>
+                            {parseISO(session.practiced_on).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>
+                            {session.subject}
+                            {session.topic && (
+                              <div className="text-xs text-gray-500">{session.topic}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="capitalize">{session.type}</TableCell>
+                          <TableCell>
+                            {Math.round((session.correct_questions / session.total_questions) * 100)}%
+                            <div className="text-xs text-gray-500">
+                              {session.correct_questions}/{session.total_questions}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {Number(netMarks.net.toFixed(2))}
+                            <div className="text-xs text-gray-500">
+                              out of {netMarks.max}
+                            </div>
+                          </TableCell>
+                          <TableCell className="capitalize">{session.difficulty}</TableCell>
+                          <TableCell>{session.time_taken}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/sessions/${session.id}/edit`)}
+                            >
+                              Edit
+                            </Button>
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              className="text-red-600"
+                              onClick={() => handleDeleteSession(session.id)}
+                            >
+                              Delete
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
                   </TableBody>
                 </Table>
               </div>
@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import type { GrandTest, Profile, Session as SessionRecord, StudyPlanBlock } from "@/types/database";
+import { getExamProfile } from "@/lib/examProfiles";
+import { GRAND_TEST_SELECT } from "@/lib/grandTests";
+import { scoreSessions } from "@/lib/scoring";
+import { buildStudyPlan, getPlanAdherence, getSubjectAllocation } from "@/lib/studyPlanner";
+import { saveStudyPlan } from "@/lib/studyPlanMutations";
+
+const DEFAULT_DAILY_HOURS = 6;
+// Past days listed in the adherence table
+const ADHERENCE_DAYS = 7;
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)}h`;
+
+const StudyPlanner = () => {
+  const navigate = useNavigate();
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
+  const [blocks, setBlocks] = useState<StudyPlanBlock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [examDate, setExamDate] = useState<Date | undefined>();
+  const [dailyHours, setDailyHours] = useState(String(DEFAULT_DAILY_HOURS));
+  const [selectedDay, setSelectedDay] = useState<Date>(new Date());
+
+  const fetchBlocks = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("study_plan_blocks")
+      .select("*")
+      .eq("user_id", userId)
+      .order("planned_on", { ascending: true });
+
+    if (error) throw error;
+    setBlocks(data || []);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        if (!data.session) {
+          navigate("/auth");
+          return;
+        }
+        setUserSession(data.session);
+        const userId = data.session.user.id;
+
+        const [profileResult, sessionsResult, grandTestsResult] = await Promise.all([
+          supabase.from("profiles").select("*").eq("id", userId).single(),
+          supabase.from("sessions").select("*").eq("user_id", userId),
+          supabase.from("grand_tests").select(GRAND_TEST_SELECT).eq("user_id", userId),
+          fetchBlocks(userId)
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (sessionsResult.error) throw sessionsResult.error;
+        if (grandTestsResult.error) throw grandTestsResult.error;
+
+        setProfile(profileResult.data);
+        setSessions(sessionsResult.data || []);
+        setGrandTests(grandTestsResult.data || []);
+        if (profileResult.data.exam_date) setExamDate(parseISO(profileResult.data.exam_date));
+        if (profileResult.data.daily_study_hours) setDailyHours(String(profileResult.data.daily_study_hours));
+      } catch (error: any) {
+        toast.error(`Error loading study plan: ${error.message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [navigate]);
+
+  const examProfile = useMemo(() => getExamProfile(profile?.target_exam), [profile]);
+  const scoring = useMemo(
+    () => scoreSessions(sessions, { examProfile, grandTests }),
+    [sessions, grandTests, examProfile]
+  );
+  const allocation = useMemo(() => getSubjectAllocation(examProfile, scoring), [examProfile, scoring]);
+  const adherence = useMemo(() => getPlanAdherence(blocks, sessions), [blocks, sessions]);
+
+  const plannedDays = useMemo(() => blocks.map(block => parseISO(block.planned_on)), [blocks]);
+  const selectedKey = format(selectedDay, "yyyy-MM-dd");
+  const selectedBlocks = blocks.filter(block => block.planned_on === selectedKey);
+  const selectedAdherence = adherence.days.find(day => day.date === selectedKey);
+  const daysLeft = examDate ? differenceInCalendarDays(examDate, new Date()) : null;
+
+  const handleGenerate = async () => {
+    if (!userSession) return;
+
+    const hours = Number(dailyHours);
+    if (!examDate || daysLeft === null || daysLeft <= 0) {
+      toast.error("Pick an exam date in the future");
+      return;
+    }
+    if (!(hours > 0 && hours <= 24)) {
+      toast.error("Daily study hours must be between 0 and 24");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const userId = userSession.user.id;
+      const exam_date = format(examDate, "yyyy-MM-dd");
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ exam_date, daily_study_hours: hours })
+        .eq("id", userId);
+
+      if (error) throw error;
+
+      const plan = buildStudyPlan({ examProfile, examDate: exam_date, dailyHours: hours, scoring });
+      await saveStudyPlan(plan);
+      await fetchBlocks(userId);
+      setProfile({ ...profile, exam_date, daily_study_hours: hours });
+      toast.success(`Planned ${plan.length} blocks over ${daysLeft} days`);
+    } catch (error: any) {
+      toast.error(`Error saving study plan: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">Study Planner</h2>
+          <p className="text-sm text-muted-foreground">
+            A day-by-day plan up to your exam, weighted towards subjects that count the most and score the least.
+          </p>
+        </div>
+
+        {loading ? (
+          <p>Loading study plan...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Plan Settings</CardTitle>
+                  <CardDescription>
+                    Regenerating replaces the plan from today onwards; past days are kept.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="exam-date">Exam Date</Label>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button
+                            id="exam-date"
+                            variant="outline"
+                            className="w-full justify-start text-left font-normal"
+                          >
+                            <CalendarIcon className="mr-2 h-4 w-4" />
+                            {examDate ? format(examDate, "PPP") : "Pick a date"}
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={examDate}
+                            onSelect={setExamDate}
+                            disabled={(date) => date < addDays(new Date(), 1)}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="daily-hours">Study Hours per Day</Label>
+                      <Input
+                        id="daily-hours"
+                        type="number"
+                        min={0.5}
+                        max={24}
+                        step={0.5}
+                        value={dailyHours}
+                        onChange={(e) => setDailyHours(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  {daysLeft !== null && daysLeft > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {daysLeft} day{daysLeft !== 1 ? "s" : ""} until {examProfile.name}
+                    </p>
+                  )}
+                  <Button onClick={handleGenerate} disabled={saving}>
+                    {saving ? "Saving..." : blocks.length > 0 ? "Regenerate Plan" : "Generate Plan"}
+                  </Button>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Time split</p>
+                    {allocation.slice(0, 6).map((item) => (
+                      <div key={item.subject} className="flex justify-between text-sm">
+                        <span>{item.subject}</span>
+                        <span className="text-muted-foreground">{Math.round(item.share * 100)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Adherence</CardTitle>
+                  <CardDescription>
+                    Logged time on the subjects planned for each day, up to today
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {adherence.rate === null ? (
+                    <p className="text-sm text-muted-foreground">No planned days have passed yet.</p>
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-baseline">
+                          <span className="text-3xl font-bold text-primary">
+                            {Math.round(adherence.rate * 100)}%
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            {formatHours(adherence.matchedMinutes)} of {formatHours(adherence.plannedMinutes)} on plan
+                          </span>
+                        </div>
+                        <Progress value={adherence.rate * 100} />
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Day</TableHead>
+                            <TableHead>Planned</TableHead>
+                            <TableHead>Logged</TableHead>
+                            <TableHead>On plan</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {adherence.days.slice(-ADHERENCE_DAYS).reverse().map((day) => (
+                            <TableRow key={day.date}>
+                              <TableCell>{format(parseISO(day.date), "EEE, MMM d")}</TableCell>
+                              <TableCell>{formatHours(day.plannedMinutes)}</TableCell>
+                              <TableCell>{formatHours(day.actualMinutes)}</TableCell>
+                              <TableCell>
+                                {day.plannedMinutes > 0
+                                  ? `${Math.round(day.matchedMinutes / day.plannedMinutes * 100)}%`
+                                  : "-"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Calendar</CardTitle>
+                <CardDescription>Pick a day to see its planned blocks</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {blocks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Set your exam date and daily hours, then generate a plan.
+                  </p>
+                ) : (
+                  <div className="flex flex-col md:flex-row gap-6">
+                    <Calendar
+                      mode="single"
+                      selected={selectedDay}
+                      onSelect={(date) => date && setSelectedDay(date)}
+                      modifiers={{ planned: plannedDays }}
+                      modifiersClassNames={{ planned: "font-bold text-primary" }}
+                      className="rounded-md border self-start"
+                    />
+                    <div className="flex-1 space-y-3">
+                      <h3 className="font-medium">{format(selectedDay, "EEEE, MMMM d")}</h3>
+                      {selectedBlocks.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nothing planned for this day.</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {selectedBlocks.map((block) => {
+                            const logged = selectedAdherence?.subjects
+                              .find(item => item.subject === block.subject)?.actualMinutes ?? 0;
+                            return (
+                              <li
+                                key={block.id}
+                                className="flex justify-between items-center rounded-md border p-3"
+                              >
+                                <span className="font-medium">{block.subject}</span>
+                                <span className="text-sm text-muted-foreground">
+                                  {block.minutes} min planned
+                                  {selectedAdherence && ` · ${logged} min logged`}
+                                </span>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StudyPlanner;
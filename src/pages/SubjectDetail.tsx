@@ -0,0 +1,334 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from "recharts";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import type { GrandTest, Profile, Session as SessionRecord, SubjectType } from "@/types/database";
+import { getExamProfile, getExamSubjects, getExpectedQuestions, getSubjectWeight } from "@/lib/examProfiles";
+import { GRAND_TEST_SELECT, grandTestsToSessions } from "@/lib/grandTests";
+import { getNetMarks, scoreSessions } from "@/lib/scoring";
+import {
+  getAccuracyBy,
+  getMinutesPerQuestion,
+  getSubjectContribution,
+  getSubjectTrend
+} from "@/lib/subjectStats";
+
+const SubjectDetail = () => {
+  const navigate = useNavigate();
+  const { subject: subjectParam } = useParams();
+  const subject = subjectParam as SubjectType;
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        if (!data.session) {
+          navigate("/auth");
+          return;
+        }
+        setUserSession(data.session);
+        const userId = data.session.user.id;
+
+        const [profileResult, sessionsResult, grandTestsResult] = await Promise.all([
+          supabase.from("profiles").select("*").eq("id", userId).single(),
+          supabase
+            .from("sessions")
+            .select("*")
+            .eq("user_id", userId)
+            .order("practiced_on", { ascending: false })
+            .order("created_at", { ascending: false }),
+          supabase.from("grand_tests").select(GRAND_TEST_SELECT).eq("user_id", userId)
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (sessionsResult.error) throw sessionsResult.error;
+        if (grandTestsResult.error) throw grandTestsResult.error;
+
+        setProfile(profileResult.data);
+        setSessions(sessionsResult.data || []);
+        setGrandTests(grandTestsResult.data || []);
+      } catch (error: any) {
+        toast.error(`Error loading subject: ${error.message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [navigate]);
+
+  const examProfile = useMemo(() => getExamProfile(profile?.target_exam), [profile]);
+  const scoring = useMemo(
+    () => scoreSessions(sessions, { examProfile, grandTests }),
+    [sessions, grandTests, examProfile]
+  );
+  const subjectResult = scoring.subjects.find(s => s.subject === subject);
+  const subjectSessions = useMemo(() => sessions.filter(s => s.subject === subject), [sessions, subject]);
+  const trend = useMemo(
+    () => getSubjectTrend([...sessions, ...grandTestsToSessions(grandTests)], subject, examProfile),
+    [sessions, grandTests, subject, examProfile]
+  );
+
+  const overall = profile?.prediction_score ?? scoring.overall;
+  const contribution = getSubjectContribution(subjectResult?.score ?? 0, overall, subject, examProfile);
+  const byDifficulty = getAccuracyBy(subjectSessions, "difficulty", ["easy", "medium", "hard"]);
+  const byConfidence = getAccuracyBy(subjectSessions, "confidence", ["low", "medium", "high"]);
+  const minutesPerQuestion = getMinutesPerQuestion(subjectSessions);
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  const renderAccuracyChart = (data: ReturnType<typeof getAccuracyBy>) => (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="level" tickFormatter={(level) => level.charAt(0).toUpperCase() + level.slice(1)} />
+          <YAxis domain={[0, 100]} />
+          <Tooltip
+            formatter={(value: number) => [`${value.toFixed(1)}%`, "Accuracy"]}
+            labelFormatter={(level, payload) => `${level} · ${payload?.[0]?.payload.sessions ?? 0} sessions`}
+          />
+          <Bar dataKey="accuracy" fill="#82ca9d" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  if (!loading && !getExamSubjects(examProfile).includes(subject)) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+        <main className="container mx-auto py-8 px-4 text-center">
+          <p className="mb-4">{subjectParam} is not a subject of {examProfile.name}.</p>
+          <Button onClick={() => navigate("/dashboard")}>Back to Dashboard</Button>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold">{subject}</h2>
+            <p className="text-sm text-muted-foreground">
+              Weight {getSubjectWeight(examProfile, subject)} · ~{getExpectedQuestions(examProfile, subject)} Qs in {examProfile.name}
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => navigate("/dashboard")}>
+              Back
+            </Button>
+            <Button onClick={() => navigate("/add-session")}>Add Session</Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p>Loading subject...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Subject Score</CardDescription>
+                  <CardTitle className="text-3xl">{(subjectResult?.score ?? 0).toFixed(1)}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  {subjectResult && `Likely range ${Math.round(subjectResult.interval.low)}–${Math.round(subjectResult.interval.high)}`}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Practice vs Mock</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {(subjectResult?.practiceScore ?? 0).toFixed(0)} / {(subjectResult?.mockScore ?? 0).toFixed(0)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  {subjectResult?.practiceCount ?? 0} practice · {subjectResult?.mockCount ?? 0} mock
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Contribution to Prediction Score</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {contribution.points.toFixed(1)}
+                    <span className="text-base font-normal text-muted-foreground"> / {contribution.maxPoints.toFixed(1)} pts</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  {contribution.share.toFixed(0)}% of your overall {overall}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Time per Question</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {minutesPerQuestion === null ? "-" : `${(minutesPerQuestion * 60).toFixed(0)}s`}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-500">
+                  Across {subjectSessions.filter(s => s.time_taken > 0).length} timed sessions
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Score Trend</CardTitle>
+                <CardDescription>Subject score as of each day you practised it</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {trend.length === 0 ? (
+                  <p>No sessions for {subject} yet.</p>
+                ) : (
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={trend} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="date"
+                          tickFormatter={(date) => parseISO(date).toLocaleDateString()}
+                        />
+                        <YAxis domain={[0, 100]} />
+                        <Tooltip
+                          formatter={(value: number) => [value.toFixed(2), "Score"]}
+                          labelFormatter={(label) => `Date: ${parseISO(label).toLocaleDateString()}`}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="score"
+                          stroke="#8884d8"
+                          dot={{ r: 3 }}
+                          strokeWidth={2}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Accuracy by Difficulty</CardTitle>
+                </CardHeader>
+                <CardContent>{renderAccuracyChart(byDifficulty)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Accuracy by Confidence</CardTitle>
+                </CardHeader>
+                <CardContent>{renderAccuracyChart(byConfidence)}</CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sessions</CardTitle>
+                <CardDescription>
+                  {subjectSessions.length} logged session{subjectSessions.length !== 1 ? "s" : ""}; grand test sections are listed under Grand Tests
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {subjectSessions.length === 0 ? (
+                  <p className="text-gray-500">No sessions logged for {subject}.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Topic</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Accuracy</TableHead>
+                          <TableHead>Net Marks</TableHead>
+                          <TableHead>Difficulty</TableHead>
+                          <TableHead>Confidence</TableHead>
+                          <TableHead>Time (mins)</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {subjectSessions.map((session) => {
+                          const netMarks = getNetMarks(session, examProfile.marking);
+                          return (
+                            <TableRow key={session.id}>
+                              <TableCell>{parseISO(session.practiced_on).toLocaleDateString()}</TableCell>
+                              <TableCell>{session.topic || "-"}</TableCell>
+                              <TableCell className="capitalize">{session.type}</TableCell>
+                              <TableCell>
+                                {Math.round((session.correct_questions / session.total_questions) * 100)}%
+                              </TableCell>
+                              <TableCell>
+                                {Number(netMarks.net.toFixed(2))} / {netMarks.max}
+                              </TableCell>
+                              <TableCell className="capitalize">{session.difficulty}</TableCell>
+                              <TableCell className="capitalize">{session.confidence}</TableCell>
+                              <TableCell>{session.time_taken}</TableCell>
+                              <TableCell className="text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => navigate(`/sessions/${session.id}/edit`)}
+                                >
+                                  Edit
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SubjectDetail;
@@ -0,0 +1,386 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Session } from "@supabase/supabase-js";
+import DashboardHeader from "@/components/DashboardHeader";
+import ProjectionSummary from "@/components/ProjectionSummary";
+import type {
+  ConfidenceLevel,
+  DifficultyLevel,
+  GrandTest,
+  Profile,
+  Session as SessionRecord,
+  SessionType,
+  SubjectType
+} from "@/types/database";
+import { getExamProfile, getExamSubjects } from "@/lib/examProfiles";
+import { GRAND_TEST_SELECT } from "@/lib/grandTests";
+import { projectScore } from "@/lib/projection";
+import { HypotheticalSession, WhatIfScenario, emptyScenario, simulateScore } from "@/lib/whatIf";
+
+const defaultDraft: HypotheticalSession = {
+  subject: "Surgery",
+  type: "mock",
+  accuracy: 75,
+  totalQuestions: 50,
+  difficulty: "hard",
+  confidence: "medium",
+  guessPercent: 0
+};
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+// Nothing on this page is saved; it only reruns the engine on a modified copy of the data
+const WhatIf = () => {
+  const navigate = useNavigate();
+  const [userSession, setUserSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [grandTests, setGrandTests] = useState<GrandTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scenario, setScenario] = useState<WhatIfScenario>(emptyScenario);
+  const [draft, setDraft] = useState<HypotheticalSession>(defaultDraft);
+  // One clock for both runs, so recency decay doesn't show up as a difference
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        if (!data.session) {
+          navigate("/auth");
+          return;
+        }
+        setUserSession(data.session);
+        const userId = data.session.user.id;
+
+        const [profileResult, sessionsResult, grandTestsResult] = await Promise.all([
+          supabase.from("profiles").select("*").eq("id", userId).single(),
+          supabase.from("sessions").select("*").eq("user_id", userId),
+          supabase.from("grand_tests").select(GRAND_TEST_SELECT).eq("user_id", userId)
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (sessionsResult.error) throw sessionsResult.error;
+        if (grandTestsResult.error) throw grandTestsResult.error;
+
+        setProfile(profileResult.data);
+        setSessions(sessionsResult.data || []);
+        setGrandTests(grandTestsResult.data || []);
+      } catch (error: any) {
+        toast.error(`Error loading sessions: ${error.message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [navigate]);
+
+  const examProfile = useMemo(() => getExamProfile(profile?.target_exam), [profile]);
+  const subjects = getExamSubjects(examProfile);
+
+  const current = useMemo(
+    () => simulateScore(sessions, grandTests, emptyScenario, { examProfile, now: () => now }),
+    [sessions, grandTests, examProfile, now]
+  );
+  const simulated = useMemo(
+    () => simulateScore(sessions, grandTests, scenario, { examProfile, now: () => now }),
+    [sessions, grandTests, scenario, examProfile, now]
+  );
+  const projection = projectScore(simulated.expectedAccuracy, examProfile, simulated.expectedAccuracyInterval);
+
+  const currentAccuracy = (subject: SubjectType) => {
+    const subjectSessions = sessions.filter(session => session.subject === subject);
+    const total = subjectSessions.reduce((sum, session) => sum + session.total_questions, 0);
+    const correct = subjectSessions.reduce((sum, session) => sum + session.correct_questions, 0);
+    return total > 0 ? correct / total * 100 : null;
+  };
+
+  const handleAddSession = () => {
+    if (draft.totalQuestions < 1) {
+      toast.error("A session needs at least one question");
+      return;
+    }
+    setScenario({ ...scenario, sessions: [...scenario.sessions, draft] });
+  };
+
+  const handleRemoveSession = (index: number) => {
+    setScenario({ ...scenario, sessions: scenario.sessions.filter((_, i) => i !== index) });
+  };
+
+  const handleOverrideChange = (subject: SubjectType, value: string) => {
+    const accuracyOverrides = { ...scenario.accuracyOverrides };
+    if (value === "") {
+      delete accuracyOverrides[subject];
+    } else {
+      accuracyOverrides[subject] = Math.min(100, Math.max(0, Number(value)));
+    }
+    setScenario({ ...scenario, accuracyOverrides });
+  };
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate("/auth");
+    } catch (error: any) {
+      toast.error(`Error signing out: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userSession={userSession} onLogout={handleLogout} />
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold">What-if Simulator</h2>
+            <p className="text-sm text-muted-foreground">
+              Try hypothetical sessions and accuracies. Nothing here is saved.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setScenario(emptyScenario)}>
+            Reset
+          </Button>
+        </div>
+
+        {loading ? (
+          <p>Loading sessions...</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Projected Prediction Score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-baseline space-x-4">
+                  <span className="text-lg text-muted-foreground">{current.overall.toFixed(2)} →</span>
+                  <span className="text-4xl font-bold text-primary">{simulated.overall.toFixed(2)}</span>
+                  <span className={simulated.overall >= current.overall ? "text-green-600" : "text-red-600"}>
+                    {formatDelta(simulated.overall - current.overall)}
+                  </span>
+                </div>
+                <ProjectionSummary projection={projection} />
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Hypothetical Sessions</CardTitle>
+                  <CardDescription>Scored as if taken today</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Subject</Label>
+                      <Select
+                        value={draft.subject}
+                        onValueChange={(value) => setDraft({ ...draft, subject: value as SubjectType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {subjects.map((subject) => (
+                            <SelectItem key={subject} value={subject}>
+                              {subject}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Type</Label>
+                      <Select
+                        value={draft.type}
+                        onValueChange={(value) => setDraft({ ...draft, type: value as SessionType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="practice">Practice</SelectItem>
+                          <SelectItem value="mock">Mock Test</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="what-if-accuracy">Accuracy (%)</Label>
+                      <Input
+                        id="what-if-accuracy"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={draft.accuracy}
+                        onChange={(e) => setDraft({ ...draft, accuracy: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="what-if-questions">Questions</Label>
+                      <Input
+                        id="what-if-questions"
+                        type="number"
+                        min="1"
+                        value={draft.totalQuestions}
+                        onChange={(e) => setDraft({ ...draft, totalQuestions: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Difficulty</Label>
+                      <Select
+                        value={draft.difficulty}
+                        onValueChange={(value) => setDraft({ ...draft, difficulty: value as DifficultyLevel })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="easy">Easy</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Confidence</Label>
+                      <Select
+                        value={draft.confidence}
+                        onValueChange={(value) => setDraft({ ...draft, confidence: value as ConfidenceLevel })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="low">Low</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="high">High</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="what-if-guess">Guesswork (%)</Label>
+                      <Input
+                        id="what-if-guess"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={draft.guessPercent}
+                        onChange={(e) => setDraft({ ...draft, guessPercent: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="flex items-end">
+                      <Button className="w-full" onClick={handleAddSession}>
+                        Add Session
+                      </Button>
+                    </div>
+                  </div>
+
+                  {scenario.sessions.length > 0 && (
+                    <ul className="space-y-2">
+                      {scenario.sessions.map((hypothetical, index) => (
+                        <li key={index} className="flex justify-between items-center rounded-md border px-3 py-2 text-sm">
+                          <span>
+                            {hypothetical.subject} · <span className="capitalize">{hypothetical.type}</span>
+                            {" · "}{hypothetical.accuracy}% of {hypothetical.totalQuestions}
+                            {" · "}<span className="capitalize">{hypothetical.difficulty}</span>
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => handleRemoveSession(index)}
+                          >
+                            Remove
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Subject Scores</CardTitle>
+                  <CardDescription>
+                    Set an accuracy to re-score every logged session of that subject at it
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto max-h-[32rem]">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Subject</TableHead>
+                          <TableHead>Accuracy</TableHead>
+                          <TableHead>Override %</TableHead>
+                          <TableHead>Score</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {subjects.map((subject) => {
+                          const accuracy = currentAccuracy(subject);
+                          const before = current.subjects.find(s => s.subject === subject)?.score ?? 0;
+                          const after = simulated.subjects.find(s => s.subject === subject)?.score ?? 0;
+                          return (
+                            <TableRow key={subject}>
+                              <TableCell>{subject}</TableCell>
+                              <TableCell>{accuracy === null ? "-" : `${Math.round(accuracy)}%`}</TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  className="w-20"
+                                  value={scenario.accuracyOverrides[subject] ?? ""}
+                                  onChange={(e) => handleOverrideChange(subject, e.target.value)}
+                                  disabled={accuracy === null}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                {before.toFixed(1)} → <span className="font-medium">{after.toFixed(1)}</span>
+                                {Math.abs(after - before) >= 0.05 && (
+                                  <span className={`ml-2 text-xs ${after > before ? "text-green-600" : "text-red-600"}`}>
+                                    {formatDelta(after - before)}
+                                  </span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default WhatIf;
@@ -8,12 +8,30 @@ export type SubjectType =
 export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 export type ConfidenceLevel = 'low' | 'medium' | 'high';
 export type SessionType = 'practice' | 'mock';
+export type SessionSource = 'manual' | 'import';
+export type ExamId = 'neet-pg' | 'ini-cet' | 'fmge';
+export type ScoreChangeCause =
+  | 'session_insert' | 'session_update' | 'session_delete' | 'session_import'
+  | 'grand_test' | 'exam_change' | 'scheduled';
 
 export interface Profile {
   id: string;
   email: string;
   nickname: string | null;
   is_admin: boolean;
+  prediction_score: number | null;
+  /** Expected net accuracy (0-100) behind projected marks; null until the next rescore. */
+  expected_accuracy: number | null;
+  expected_accuracy_low: number | null;
+  expected_accuracy_high: number | null;
+  target_exam: ExamId;
+  /** Date of the exam (yyyy-MM-dd); the study planner works back from it. */
+  exam_date: string | null;
+  daily_study_hours: number | null;
+  /** Overall prediction score the user is aiming for, 0-100. */
+  target_score: number | null;
+  /** Target score (0-100) for each subject the user set one for. */
+  subject_targets: Partial<Record<SubjectType, number>> | null;
   created_at: string;
 }
 
@@ -21,13 +39,73 @@ export interface Session {
   id: string;
   user_id: string;
   subject: SubjectType;
+  /** Optional chapter within the subject, from src/lib/topics.ts. */
+  topic: string | null;
   correct_questions: number;
+  /** Null on sessions logged before attempts were tracked. */
+  incorrect_questions: number | null;
+  unattempted_questions: number | null;
   total_questions: number;
   difficulty: DifficultyLevel;
   confidence: ConfidenceLevel;
   guess_percent: number;
   time_taken: number;
   type: SessionType;
+  source: SessionSource;
+  /** Date the session was practised (yyyy-MM-dd); drives recency and charts. */
+  practiced_on: string;
+  /** When the row was written. */
+  created_at: string;
+}
+
+export interface GrandTestSubject {
+  id: string;
+  grand_test_id: string;
+  user_id: string;
+  subject: SubjectType;
+  correct_questions: number;
+  incorrect_questions: number;
+  unattempted_questions: number;
+  total_questions: number;
+}
+
+export interface GrandTest {
+  id: string;
+  user_id: string;
+  name: string;
+  taken_on: string;
+  marks: number;
+  rank: number | null;
+  percentile: number | null;
+  created_at: string;
+  /** Present when selected with `grand_test_subjects(*)`. */
+  grand_test_subjects?: GrandTestSubject[];
+}
+
+export interface SubjectSnapshot {
+  score: number;
+  score_low: number;
+  score_high: number;
+}
+
+export interface ScoreHistory {
+  id: string;
+  user_id: string;
+  score: number;
+  score_low: number | null;
+  score_high: number | null;
+  cause: ScoreChangeCause | null;
+  /** Scores of the subjects that had sessions; null on entries recorded before snapshots. */
+  subject_scores: Partial<Record<SubjectType, SubjectSnapshot>> | null;
+  created_at: string;
+}
+
+export interface StudyPlanBlock {
+  id: string;
+  user_id: string;
+  planned_on: string;
+  subject: SubjectType;
+  minutes: number;
   created_at: string;
 }
 
@@ -41,9 +119,35 @@ export interface Database {
       };
       sessions: {
         Row: Session;
-        Insert: Omit<Session, 'id' | 'created_at'>;
+        Insert: Omit<Session, 'id' | 'created_at' | 'source' | 'topic'> & { source?: SessionSource; topic?: string | null };
         Update: Partial<Omit<Session, 'id' | 'created_at'>>;
       };
+      grand_tests: {
+        Row: GrandTest;
+        Insert: Omit<GrandTest, 'id' | 'created_at' | 'grand_test_subjects'>;
+        Update: Partial<Omit<GrandTest, 'id' | 'created_at' | 'grand_test_subjects'>>;
+      };
+      grand_test_subjects: {
+        Row: GrandTestSubject;
+        Insert: Omit<GrandTestSubject, 'id'>;
+        Update: Partial<Omit<GrandTestSubject, 'id'>>;
+      };
+      study_plan_blocks: {
+        Row: StudyPlanBlock;
+        Insert: Omit<StudyPlanBlock, 'id' | 'created_at'>;
+        Update: Partial<Omit<StudyPlanBlock, 'id' | 'created_at'>>;
+      };
+      score_history: {
+        Row: ScoreHistory;
+        Insert: Omit<ScoreHistory, 'id'>;
+        Update: Partial<Omit<ScoreHistory, 'id'>>;
+      };
+    };
+    Functions: {
+      replace_study_plan: {
+        Args: { plan_start: string; blocks: Pick<StudyPlanBlock, 'planned_on' | 'subject' | 'minutes'>[] };
+        Returns: undefined;
+      };
     };
   };
 }
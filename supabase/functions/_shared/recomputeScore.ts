@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GrandTest, ScoreChangeCause, Session } from "@/types/database";
+import { getExamProfile } from "@/lib/examProfiles";
+import { GRAND_TEST_SELECT } from "@/lib/grandTests";
+import { scoreSessions, toSubjectSnapshots } from "@/lib/scoring";
+
+export interface RecomputeResult {
+  userId: string;
+  score: number;
+}
+
+// Scores a user's sessions with the app's engine and stores the result
+export async function recomputeScore(
+  supabase: SupabaseClient,
+  userId: string,
+  cause: ScoreChangeCause,
+  now: () => number = Date.now
+): Promise<RecomputeResult> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("target_exam")
+    .eq("id", userId)
+    .single();
+
+  if (profileError) throw profileError;
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from("sessions")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (sessionsError) throw sessionsError;
+
+  const { data: grandTests, error: grandTestsError } = await supabase
+    .from("grand_tests")
+    .select(GRAND_TEST_SELECT)
+    .eq("user_id", userId);
+
+  if (grandTestsError) throw grandTestsError;
+
+  const result = scoreSessions((sessions ?? []) as Session[], {
+    examProfile: getExamProfile(profile.target_exam),
+    grandTests: (grandTests ?? []) as GrandTest[],
+    now
+  });
+
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update({
+      prediction_score: result.overall,
+      expected_accuracy: result.expectedAccuracy,
+      expected_accuracy_low: result.expectedAccuracyInterval.low,
+      expected_accuracy_high: result.expectedAccuracyInterval.high
+    })
+    .eq("id", userId);
+
+  if (updateError) throw updateError;
+
+  const { error: historyError } = await supabase
+    .from("score_history")
+    .insert({
+      user_id: userId,
+      score: result.overall,
+      score_low: result.interval.low,
+      score_high: result.interval.high,
+      cause,
+      subject_scores: toSubjectSnapshots(result),
+      created_at: result.computedAt
+    });
+
+  if (historyError) throw historyError;
+
+  return { userId, score: result.overall };
+}
@@ -0,0 +1,52 @@
+import { createClient } from "@supabase/supabase-js";
+import type { ScoreChangeCause } from "@/types/database";
+import { recomputeScore } from "../_shared/recomputeScore.ts";
+
+const causes: ScoreChangeCause[] = [
+  "session_insert",
+  "session_update",
+  "session_delete",
+  "session_import",
+  "grand_test",
+  "exam_change",
+  "scheduled"
+];
+
+// Called through pg_net with the service role key, by the session triggers and
+// by the daily-rescore cron job.
+// Body: { "user_ids": string[], "cause": ScoreChangeCause }
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return Response.json({ error: "Only the service role may recompute scores" }, { status: 403 });
+  }
+
+  const { user_ids: userIds, cause } = await req.json().catch(() => ({}));
+  if (!Array.isArray(userIds)) {
+    return Response.json({ error: "user_ids must be an array" }, { status: 400 });
+  }
+  if (!causes.includes(cause)) {
+    return Response.json({ error: `cause must be one of ${causes.join(", ")}` }, { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  // One failing user (say a profile deleted since the cron picked it) must not
+  // stop the rest of the batch from being rescored
+  const results = [];
+  const failures: { userId: string; error: string }[] = [];
+  for (const userId of userIds) {
+    try {
+      results.push(await recomputeScore(supabase, userId, cause));
+    } catch (error) {
+      // Postgrest errors are plain objects with a message
+      const message = (error as { message?: string }).message ?? String(error);
+      console.error(`Score recompute failed for ${userId}:`, message);
+      failures.push({ userId, error: message });
+    }
+  }
+
+  // Users that succeeded are already saved; a 500 flags the failures in net._http_response
+  return Response.json({ results, failures }, { status: failures.length > 0 ? 500 : 200 });
+});
@@ -0,0 +1,77 @@
+-- Baseline schema of the hosted project, so a local stack can be built with `supabase db reset`.
+-- Written to be a no-op against the existing database.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  nickname text,
+  is_admin boolean not null default false,
+  prediction_score numeric,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  subject text not null,
+  correct_questions integer not null check (correct_questions >= 0),
+  total_questions integer not null check (total_questions > 0),
+  difficulty text not null check (difficulty in ('easy', 'medium', 'hard')),
+  confidence text not null check (confidence in ('low', 'medium', 'high')),
+  guess_percent integer not null default 0 check (guess_percent between 0 and 100),
+  time_taken integer not null default 0,
+  type text not null check (type in ('practice', 'mock')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sessions_user_id_idx on public.sessions (user_id);
+
+create table if not exists public.score_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  score numeric not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists score_history_user_id_created_at_idx on public.score_history (user_id, created_at);
+
+alter table public.profiles enable row level security;
+alter table public.sessions enable row level security;
+alter table public.score_history enable row level security;
+
+-- Everyone signed in can read profiles for the leaderboard
+drop policy if exists "Profiles are readable by signed in users" on public.profiles;
+create policy "Profiles are readable by signed in users"
+  on public.profiles for select to authenticated using (true);
+
+drop policy if exists "Users can update their own profile" on public.profiles;
+create policy "Users can update their own profile"
+  on public.profiles for update to authenticated using (auth.uid() = id);
+
+drop policy if exists "Users manage their own sessions" on public.sessions;
+create policy "Users manage their own sessions"
+  on public.sessions for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own score history" on public.score_history;
+create policy "Users manage their own score history"
+  on public.score_history for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email)
+  values (new.id, new.email)
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
@@ -0,0 +1,4 @@
+-- Exam the user is preparing for; drives subject weights and marking scheme
+alter table public.profiles
+  add column if not exists target_exam text not null default 'neet-pg'
+  check (target_exam in ('neet-pg', 'ini-cet', 'fmge'));
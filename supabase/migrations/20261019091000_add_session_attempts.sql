@@ -0,0 +1,9 @@
+-- Split misses into wrong answers and skipped questions so negative marking can be applied.
+-- Both stay null for sessions logged before this change.
+alter table public.sessions
+  add column if not exists incorrect_questions integer check (incorrect_questions >= 0),
+  add column if not exists unattempted_questions integer check (unattempted_questions >= 0);
+
+alter table public.sessions
+  add constraint sessions_question_counts_check
+  check (correct_questions + coalesce(incorrect_questions, 0) + coalesce(unattempted_questions, 0) <= total_questions);
@@ -0,0 +1,4 @@
+-- 95% range around each recorded prediction score
+alter table public.score_history
+  add column if not exists score_low numeric,
+  add column if not exists score_high numeric;
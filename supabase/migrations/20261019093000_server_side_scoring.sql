@@ -0,0 +1,112 @@
+-- Scores are computed by the recompute-score Edge Function, which runs the same
+-- engine as the app (src/lib/scoring.ts). Session changes call it through pg_net.
+--
+-- The function URL and service role key are read from Vault:
+--   select vault.create_secret('<project url>', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+create extension if not exists pg_net with schema extensions;
+
+create or replace function public.invoke_score_recompute(user_ids uuid[])
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  project_url text;
+  service_role_key text;
+begin
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_role_key from vault.decrypted_secrets where name = 'service_role_key';
+
+  if project_url is null or service_role_key is null then
+    raise warning 'Score recompute skipped: project_url or service_role_key missing from vault';
+    return;
+  end if;
+
+  perform net.http_post(
+    url := project_url || '/functions/v1/recompute-score',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := jsonb_build_object('user_ids', to_jsonb(user_ids))
+  );
+end;
+$$;
+
+revoke execute on function public.invoke_score_recompute(uuid[]) from public, anon, authenticated;
+
+-- Statement-level so a bulk insert triggers one recompute per user, not one per row
+create or replace function public.sessions_score_recompute()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  affected uuid[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct user_id) into affected from new_sessions;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct user_id) into affected from old_sessions;
+  else
+    select array_agg(distinct user_id) into affected
+    from (select user_id from new_sessions union select user_id from old_sessions) changed;
+  end if;
+
+  if affected is not null then
+    perform public.invoke_score_recompute(affected);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sessions_score_recompute_insert on public.sessions;
+create trigger sessions_score_recompute_insert
+  after insert on public.sessions
+  referencing new table as new_sessions
+  for each statement execute function public.sessions_score_recompute();
+
+drop trigger if exists sessions_score_recompute_update on public.sessions;
+create trigger sessions_score_recompute_update
+  after update on public.sessions
+  referencing old table as old_sessions new table as new_sessions
+  for each statement execute function public.sessions_score_recompute();
+
+drop trigger if exists sessions_score_recompute_delete on public.sessions;
+create trigger sessions_score_recompute_delete
+  after delete on public.sessions
+  referencing old table as old_sessions
+  for each statement execute function public.sessions_score_recompute();
+
+-- Switching exam changes weights and marking, so the score must follow
+create or replace function public.profiles_score_recompute()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  perform public.invoke_score_recompute(array[new.id]);
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_score_recompute on public.profiles;
+create trigger profiles_score_recompute
+  after update of target_exam on public.profiles
+  for each row
+  when (old.target_exam is distinct from new.target_exam)
+  execute function public.profiles_score_recompute();
+
+-- Clients may only edit their own profile details; scores are written by the service role
+revoke insert, update on public.profiles from anon, authenticated;
+grant update (nickname, target_exam) on public.profiles to authenticated;
+
+revoke insert, update, delete on public.score_history from anon, authenticated;
+drop policy if exists "Users manage their own score history" on public.score_history;
+drop policy if exists "Users can read their own score history" on public.score_history;
+create policy "Users can read their own score history"
+  on public.score_history for select to authenticated
+  using (auth.uid() = user_id);
@@ -0,0 +1,72 @@
+-- Record what triggered each score_history entry
+alter table public.score_history
+  add column if not exists cause text
+  check (cause in ('session_insert', 'session_update', 'session_delete', 'exam_change'));
+
+drop function if exists public.invoke_score_recompute(uuid[]);
+
+create or replace function public.invoke_score_recompute(user_ids uuid[], cause text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  project_url text;
+  service_role_key text;
+begin
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_role_key from vault.decrypted_secrets where name = 'service_role_key';
+
+  if project_url is null or service_role_key is null then
+    raise warning 'Score recompute skipped: project_url or service_role_key missing from vault';
+    return;
+  end if;
+
+  perform net.http_post(
+    url := project_url || '/functions/v1/recompute-score',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := jsonb_build_object('user_ids', to_jsonb(user_ids), 'cause', cause)
+  );
+end;
+$$;
+
+revoke execute on function public.invoke_score_recompute(uuid[], text) from public, anon, authenticated;
+
+create or replace function public.sessions_score_recompute()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  affected uuid[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct user_id) into affected from new_sessions;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct user_id) into affected from old_sessions;
+  else
+    select array_agg(distinct user_id) into affected
+    from (select user_id from new_sessions union select user_id from old_sessions) changed;
+  end if;
+
+  if affected is not null then
+    perform public.invoke_score_recompute(affected, 'session_' || lower(tg_op));
+  end if;
+
+  return null;
+end;
+$$;
+
+create or replace function public.profiles_score_recompute()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  perform public.invoke_score_recompute(array[new.id], 'exam_change');
+  return null;
+end;
+$$;
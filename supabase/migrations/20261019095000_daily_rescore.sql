@@ -0,0 +1,36 @@
+-- Recompute every active user's score once a day so recency decay reaches the
+-- leaderboard and trend chart even when no new sessions are logged.
+
+create extension if not exists pg_cron with schema extensions;
+
+alter table public.score_history drop constraint if exists score_history_cause_check;
+alter table public.score_history
+  add constraint score_history_cause_check
+  check (cause in ('session_insert', 'session_update', 'session_delete', 'exam_change', 'scheduled'));
+
+-- Users are sent to the Edge Function in batches to stay inside its time limit
+create or replace function public.rescore_all_profiles(batch_size integer default 100)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  batch uuid[];
+begin
+  for batch in
+    select array_agg(id)
+    from (
+      select p.id, (row_number() over (order by p.id) - 1) / batch_size as chunk
+      from public.profiles p
+      where exists (select 1 from public.sessions s where s.user_id = p.id)
+    ) active
+    group by chunk
+  loop
+    perform public.invoke_score_recompute(batch, 'scheduled');
+  end loop;
+end;
+$$;
+
+revoke execute on function public.rescore_all_profiles(integer) from public, anon, authenticated;
+
+select cron.schedule('daily-rescore', '30 0 * * *', 'select public.rescore_all_profiles()');
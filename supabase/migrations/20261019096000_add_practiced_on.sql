@@ -0,0 +1,13 @@
+-- Date the session was actually practised. created_at stays as the audit timestamp.
+alter table public.sessions
+  add column if not exists practiced_on date;
+
+update public.sessions
+set practiced_on = (created_at at time zone 'Asia/Kolkata')::date
+where practiced_on is null;
+
+alter table public.sessions
+  alter column practiced_on set default current_date,
+  alter column practiced_on set not null;
+
+create index if not exists sessions_user_id_practiced_on_idx on public.sessions (user_id, practiced_on);
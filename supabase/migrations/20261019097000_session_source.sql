@@ -0,0 +1,38 @@
+-- Where a session came from, so bulk imports get their own score_history cause
+alter table public.sessions
+  add column if not exists source text not null default 'manual'
+  check (source in ('manual', 'import'));
+
+alter table public.score_history drop constraint if exists score_history_cause_check;
+alter table public.score_history
+  add constraint score_history_cause_check
+  check (cause in ('session_insert', 'session_update', 'session_delete', 'session_import', 'exam_change', 'scheduled'));
+
+create or replace function public.sessions_score_recompute()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  affected uuid[];
+  cause text := 'session_' || lower(tg_op);
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct user_id) into affected from new_sessions;
+    if not exists (select 1 from new_sessions where source <> 'import') then
+      cause := 'session_import';
+    end if;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct user_id) into affected from old_sessions;
+  else
+    select array_agg(distinct user_id) into affected
+    from (select user_id from new_sessions union select user_id from old_sessions) changed;
+  end if;
+
+  if affected is not null then
+    perform public.invoke_score_recompute(affected, cause);
+  end if;
+
+  return null;
+end;
+$$;
@@ -0,0 +1,120 @@
+-- Full-length grand tests. The per-subject breakdown feeds the mock component of the score.
+create table if not exists public.grand_tests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null,
+  taken_on date not null default current_date,
+  marks numeric not null,
+  rank integer check (rank > 0),
+  percentile numeric check (percentile between 0 and 100),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists grand_tests_user_id_taken_on_idx on public.grand_tests (user_id, taken_on);
+
+create table if not exists public.grand_test_subjects (
+  id uuid primary key default gen_random_uuid(),
+  grand_test_id uuid not null references public.grand_tests (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  subject text not null,
+  correct_questions integer not null check (correct_questions >= 0),
+  incorrect_questions integer not null default 0 check (incorrect_questions >= 0),
+  unattempted_questions integer not null default 0 check (unattempted_questions >= 0),
+  total_questions integer not null check (total_questions > 0),
+  check (correct_questions + incorrect_questions + unattempted_questions <= total_questions),
+  unique (grand_test_id, subject)
+);
+
+create index if not exists grand_test_subjects_user_id_idx on public.grand_test_subjects (user_id);
+
+alter table public.grand_tests enable row level security;
+alter table public.grand_test_subjects enable row level security;
+
+drop policy if exists "Users manage their own grand tests" on public.grand_tests;
+create policy "Users manage their own grand tests"
+  on public.grand_tests for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own grand test subjects" on public.grand_test_subjects;
+create policy "Users manage their own grand test subjects"
+  on public.grand_test_subjects for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.score_history drop constraint if exists score_history_cause_check;
+alter table public.score_history
+  add constraint score_history_cause_check
+  check (cause in (
+    'session_insert', 'session_update', 'session_delete', 'session_import',
+    'grand_test', 'exam_change', 'scheduled'
+  ));
+
+-- Only the breakdown feeds the score; deleting a grand test cascades to it
+create or replace function public.grand_test_subjects_score_recompute()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  affected uuid[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct user_id) into affected from new_rows;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct user_id) into affected from old_rows;
+  else
+    select array_agg(distinct user_id) into affected
+    from (select user_id from new_rows union select user_id from old_rows) changed;
+  end if;
+
+  if affected is not null then
+    perform public.invoke_score_recompute(affected, 'grand_test');
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists grand_test_subjects_score_recompute_insert on public.grand_test_subjects;
+create trigger grand_test_subjects_score_recompute_insert
+  after insert on public.grand_test_subjects
+  referencing new table as new_rows
+  for each statement execute function public.grand_test_subjects_score_recompute();
+
+drop trigger if exists grand_test_subjects_score_recompute_update on public.grand_test_subjects;
+create trigger grand_test_subjects_score_recompute_update
+  after update on public.grand_test_subjects
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.grand_test_subjects_score_recompute();
+
+drop trigger if exists grand_test_subjects_score_recompute_delete on public.grand_test_subjects;
+create trigger grand_test_subjects_score_recompute_delete
+  after delete on public.grand_test_subjects
+  referencing old table as old_rows
+  for each statement execute function public.grand_test_subjects_score_recompute();
+
+-- Grand tests feed the score too, so users who only log grand tests still need
+-- the daily rescore for recency decay
+create or replace function public.rescore_all_profiles(batch_size integer default 100)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  batch uuid[];
+begin
+  for batch in
+    select array_agg(id)
+    from (
+      select p.id, (row_number() over (order by p.id) - 1) / batch_size as chunk
+      from public.profiles p
+      where exists (select 1 from public.sessions s where s.user_id = p.id)
+        or exists (select 1 from public.grand_tests g where g.user_id = p.id)
+    ) active
+    group by chunk
+  loop
+    perform public.invoke_score_recompute(batch, 'scheduled');
+  end loop;
+end;
+$$;
+
+revoke execute on function public.rescore_all_profiles(integer) from public, anon, authenticated;
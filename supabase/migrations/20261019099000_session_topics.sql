@@ -0,0 +1,8 @@
+-- Optional chapter within the subject (see src/lib/topics.ts for the taxonomy)
+alter table public.sessions
+  add column if not exists topic text
+  check (topic is null or length(trim(topic)) > 0);
+
+create index if not exists sessions_user_id_subject_topic_idx
+  on public.sessions (user_id, subject, topic)
+  where topic is not null;
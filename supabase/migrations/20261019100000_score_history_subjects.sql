@@ -0,0 +1,4 @@
+-- Per-subject breakdown of each recorded prediction score, keyed by subject:
+-- { "Pathology": { "score": 62.4, "score_low": 51.2, "score_high": 73.6 }, ... }
+alter table public.score_history
+  add column if not exists subject_scores jsonb;
@@ -0,0 +1,28 @@
+-- Exam date and study time the planner spreads the syllabus over
+alter table public.profiles
+  add column if not exists exam_date date,
+  add column if not exists daily_study_hours numeric
+  check (daily_study_hours is null or (daily_study_hours > 0 and daily_study_hours <= 24));
+
+grant update (exam_date, daily_study_hours) on public.profiles to authenticated;
+
+-- Planned subject blocks. Past days are kept when the plan is regenerated so
+-- logged sessions can be checked against what was planned at the time.
+create table if not exists public.study_plan_blocks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  planned_on date not null,
+  subject text not null,
+  minutes integer not null check (minutes > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists study_plan_blocks_user_id_planned_on_idx
+  on public.study_plan_blocks (user_id, planned_on);
+
+alter table public.study_plan_blocks enable row level security;
+
+drop policy if exists "Users manage their own study plan" on public.study_plan_blocks;
+create policy "Users manage their own study plan"
+  on public.study_plan_blocks for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Overall prediction score the user is aiming for by the exam
+alter table public.profiles
+  add column if not exists target_score numeric
+  check (target_score is null or target_score between 0 and 100);
+
+grant update (target_score) on public.profiles to authenticated;
@@ -0,0 +1,6 @@
+-- Per-subject target scores keyed by subject, e.g. { "Pathology": 70, "Surgery": 65 }
+alter table public.profiles
+  add column if not exists subject_targets jsonb
+  check (subject_targets is null or jsonb_typeof(subject_targets) = 'object');
+
+grant update (subject_targets) on public.profiles to authenticated;
@@ -0,0 +1,7 @@
+-- Expected net accuracy on the paper (0-100) with its 95% range, written by the
+-- recompute-score function next to prediction_score. Projected marks and ranks
+-- come from this, since the prediction score's multipliers overstate them.
+alter table public.profiles
+  add column if not exists expected_accuracy numeric,
+  add column if not exists expected_accuracy_low numeric,
+  add column if not exists expected_accuracy_high numeric;
@@ -0,0 +1,11 @@
+-- A session can't be practised in the future. One day of slack covers clients
+-- ahead of the server's date; anything later would score above full recency.
+update public.sessions
+set practiced_on = current_date
+where practiced_on > current_date + 1;
+
+alter table public.sessions
+  drop constraint if exists sessions_practiced_on_check;
+
+alter table public.sessions
+  add constraint sessions_practiced_on_check check (practiced_on <= current_date + 1);
@@ -0,0 +1,11 @@
+-- A grand test can't have been taken in the future; its date feeds recency the
+-- same way a session's practiced_on does.
+update public.grand_tests
+set taken_on = current_date
+where taken_on > current_date;
+
+alter table public.grand_tests
+  drop constraint if exists grand_tests_taken_on_check;
+
+alter table public.grand_tests
+  add constraint grand_tests_taken_on_check check (taken_on <= current_date);
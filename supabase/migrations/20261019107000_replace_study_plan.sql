@@ -0,0 +1,21 @@
+-- Regenerating the plan deletes the upcoming days and inserts the new blocks.
+-- Doing both in one function keeps them in one transaction, so a failed insert
+-- leaves the old plan in place instead of an empty one. Runs as the caller, so
+-- the table's row level security still applies.
+create or replace function public.replace_study_plan(plan_start date, blocks jsonb)
+returns void
+language plpgsql
+security invoker set search_path = public
+as $$
+begin
+  delete from public.study_plan_blocks
+  where user_id = auth.uid() and planned_on >= plan_start;
+
+  insert into public.study_plan_blocks (user_id, planned_on, subject, minutes)
+  select auth.uid(), b.planned_on, b.subject, b.minutes
+  from jsonb_to_recordset(blocks) as b(planned_on date, subject text, minutes integer);
+end;
+$$;
+
+revoke execute on function public.replace_study_plan(date, jsonb) from public, anon;
+grant execute on function public.replace_study_plan(date, jsonb) to authenticated;